@@ -0,0 +1,64 @@
+import convertHeic from 'heic-convert';
+import { Translator } from './i18n.js';
+
+// What the bot does with an attachment: forward it as-is, convert it first, or parse it locally
+export type AttachmentKind = 'image' | 'heic' | 'pdf' | 'ics';
+
+// Content types used for type filtering when Discord does not report one
+const extensionTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf',
+  ics: 'text/calendar',
+};
+
+/**
+ * Content type of an attachment, falling back to its file extension when
+ * Discord reports nothing useful (common for .ics and .heic files).
+ */
+export function effectiveContentType(contentType: string | null, name: string | null): string {
+  const lower = (contentType || '').toLowerCase();
+  if (lower && lower !== 'application/octet-stream') {
+    return lower;
+  }
+  const extension = (name || '').toLowerCase().split('.').pop() || '';
+  return extensionTypes[extension] || lower || 'application/octet-stream';
+}
+
+export function classifyAttachment(contentType: string): AttachmentKind | null {
+  if (contentType.includes('image/heic') || contentType.includes('image/heif')) return 'heic';
+  if (contentType.includes('image/jpeg') || contentType.includes('image/png') || contentType.includes('image/webp') || contentType.includes('image/gif')) return 'image';
+  if (contentType.includes('application/pdf')) return 'pdf';
+  if (contentType.includes('text/calendar')) return 'ics';
+  return null;
+}
+
+// HEIC (iPhone photos) is not widely supported downstream, so convert it to JPEG before forwarding
+export async function convertHeicToJpeg(buffer: Buffer): Promise<Buffer> {
+  const output = await convertHeic({ buffer, format: 'JPEG', quality: 0.9 });
+  return Buffer.from(output);
+}
+
+export function jpegFileName(name: string): string {
+  return name.replace(/\.(heic|heif)$/i, '') + '.jpg';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+// e.g. "3 images and a PDF", in the user's language
+export function describeAttachments(kinds: AttachmentKind[], tr: Translator): string {
+  const counts = new Map<AttachmentKind, number>();
+  for (const kind of kinds) counts.set(kind, (counts.get(kind) || 0) + 1);
+
+  const parts = [...counts].map(([kind, count]) => tr.t(`attachments.${kind}`, { count }));
+  return parts.length > 0 ? tr.list(parts) : tr.t('attachments.nothing');
+}
@@ -0,0 +1,54 @@
+import { JsonFile } from './jsonFile.js';
+
+export interface BlockedUser {
+  discordId: string;
+  reason?: string;
+  // Admin who added the entry
+  blockedBy: string;
+  blockedAt: string;
+}
+
+/**
+ * Discord IDs the bot ignores entirely, managed by bot admins with /blocklist.
+ */
+export class BlocklistStore {
+  private users = new Map<string, BlockedUser>();
+  private readonly file: JsonFile<BlockedUser[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async init() {
+    const stored = await this.file.read([]);
+    this.users = new Map(stored.map(entry => [entry.discordId, entry]));
+  }
+
+  has(discordId: string): boolean {
+    return this.users.has(discordId);
+  }
+
+  list(): BlockedUser[] {
+    return [...this.users.values()];
+  }
+
+  async add(entry: BlockedUser): Promise<void> {
+    this.users.set(entry.discordId, entry);
+    await this.persist();
+  }
+
+  // Returns false if the ID was not blocked
+  async remove(discordId: string): Promise<boolean> {
+    if (!this.users.delete(discordId)) return false;
+    await this.persist();
+    return true;
+  }
+
+  async flush(): Promise<void> {
+    await this.file.flush();
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write([...this.users.values()]);
+  }
+}
@@ -1,77 +1,311 @@
-import { Client, GatewayIntentBits, Partials, Events, Message } from 'discord.js';
+import {
+  Attachment,
+  AutocompleteInteraction,
+  ButtonInteraction,
+  Channel,
+  ChatInputCommandInteraction,
+  Client,
+  Events,
+  GatewayIntentBits,
+  Interaction,
+  Message,
+  MessageContextMenuCommandInteraction,
+  MessageCreateOptions,
+  MessageFlags,
+  ModalSubmitInteraction,
+  PartialMessage,
+  Partials,
+  Status,
+} from 'discord.js';
 import fetch from 'node-fetch';
+import { readFile } from 'fs/promises';
 import dotenv from 'dotenv';
+import {
+  ADD_TO_CALENDAR_COMMAND,
+  CommandContext,
+  contextFromInteraction,
+  contextFromMessage,
+  syncCommands,
+  threadParentId,
+} from './commands.js';
+import {
+  CalendarClient,
+  CalendarEvent,
+  CalendarNotFoundError,
+  EventChanges,
+  EventQuery,
+  ExtractedEvent,
+  describeCalendarError,
+  parseReceiverEvents,
+} from './calendarClient.js';
+import { CalendarNotification, formatNotification } from './notifications.js';
+import { EventPager, parseEventPageId } from './eventPages.js';
+import {
+  buildEditModal,
+  buildEventButtons,
+  buildEventEmbed,
+  eventFromEmbed,
+  parseEventButtonId,
+  parseEventModalId,
+} from './eventConfirmation.js';
+import {
+  forwardsAttempted,
+  forwardsFailed,
+  forwardsSucceeded,
+  gatewayReconnects,
+  messagesSeen,
+  CommandSource,
+  rateLimited,
+  receiverLatency,
+  recordCommand,
+} from './metrics.js';
+import {
+  AttachmentKind,
+  classifyAttachment,
+  convertHeicToJpeg,
+  describeAttachments,
+  effectiveContentType,
+  formatBytes,
+  jpegFileName,
+} from './attachments.js';
+import { parseIcs } from './ics.js';
+import { ForwardedMessageStore, hashContent } from './forwardedMessages.js';
+import { DEFAULT_ATTACHMENT_TYPES, GuildConfig, GuildConfigStore, ReplyVerbosity } from './guildConfig.js';
+import { RegistrationCache } from './registrationCache.js';
+import { RequestSigner, loadSigningKeys } from './signing.js';
+import {
+  DigestOutcome,
+  DigestSchedule,
+  DigestScheduler,
+  DigestScope,
+  DigestWindow,
+  buildDigestEmbed,
+  isValidTime,
+  isValidTimeZone,
+  localDays,
+} from './digests.js';
+import { CORRELATION_HEADER, currentCorrelationId, logger, newCorrelationId, withCorrelationId } from './logger.js';
+import { buildForgetMePrompt, formatDeletionSummary, parseForgetMeButtonId } from './dataDeletion.js';
+import { BlocklistStore } from './blocklist.js';
+import {
+  ConcurrencyLimiter,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimiter,
+  formatRetryAfter,
+  parseCommandRules,
+  parseRateLimitRule,
+} from './rateLimit.js';
+import { DeliveryStatus, Outbox, OutboxItem, PermanentDeliveryError } from './outbox.js';
+import { MessageKey, Translator, createTranslator, isLocale, localeNames, resolveLocale } from './i18n.js';
+import { UserPreferences, UserPreferencesStore } from './userPreferences.js';
+import {
+  DEFAULT_PROFILE,
+  ReceiverProfile,
+  ReceiverRouter,
+  TEXT_CONTENT_TYPE,
+  acceptsContentType,
+  deriveCalendarAppUrl,
+  loadReceiverRoutes,
+} from './receiverRoutes.js';
 
 // Load environment variables
 dotenv.config();
 
-// TypeScript interfaces for API responses
-interface RegistrationResponse {
-  success: boolean;
-  error?: string;
-  message?: string;
-  user?: {
-    discordId: string;
-    email: string;
-    username?: string;
-    registeredAt: Date;
-  };
+const log = logger.child({ component: 'discord' });
+
+interface AcceptedAttachment {
+  attachment: Attachment;
+  kind: AttachmentKind;
+}
+
+interface DownloadedAttachment {
+  kind: AttachmentKind;
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+interface AttachmentBatchResult {
+  result: ForwardResult;
+  // Problems with individual attachments to include in the reply
+  notes: string[];
+}
+
+// A /config change requested by a guild admin
+type ConfigAction =
+  | { kind: 'show' }
+  | { kind: 'channel-add' | 'channel-remove'; channelId: string }
+  | { kind: 'text'; enabled: boolean }
+  | { kind: 'attachments'; types: string }
+  | { kind: 'verbosity'; level: ReplyVerbosity };
+
+// A /digest subcommand
+type DigestAction =
+  | { kind: 'set'; channelId: string; time: string; timezone: string; scope: DigestScope }
+  | { kind: 'off' | 'show' | 'subscribe' | 'unsubscribe' };
+
+// Anything that happens somewhere a receiver route can match: messages, interactions, command contexts and digests
+interface RouteTarget {
+  guildId: string | null;
+  channelId: string | null;
+  // Known parent of a thread, as on command contexts; otherwise looked up from channel
+  parentChannelId?: string | null;
+  channel?: Channel | null;
+}
+
+// Receiver 4xx responses worth retrying: auth and not-found errors are transient while a calendar app deploys or rotates keys
+const RETRYABLE_CLIENT_STATUSES = new Set([401, 403, 404, 408, 429]);
+
+// Outcome of forwarding a message to the receiver
+// 'rejected' means the user was already told why; 'unregistered' means the requester has no linked account
+type ForwardResult = 'delivered' | 'queued' | 'failed' | 'rejected' | 'unregistered';
+
+// Where channel posts go when there is no gateway connection, i.e. in the simulator
+export type ChannelSink = (channelId: string, options: MessageCreateOptions) => Promise<void>;
+
+// Prefix for outbox IDs; forwards requested by someone other than the author get their own
+function forwardKey(message: Message, invokerId?: string): string {
+  return invokerId ? `discord:${message.id}:${invokerId}` : `discord:${message.id}`;
+}
+
+// The user whose account a forward goes to: whoever used "Add to my calendar", otherwise the author
+function requesterOf(item: OutboxItem): string {
+  return item.fields.discordInvokerId || item.fields.discordAuthorId;
 }
 
-interface StatusResponse {
-  success: boolean;
-  error?: string;
-  registered: boolean;
-  user?: {
-    discordId: string;
-    email: string;
-    username?: string;
-    registeredAt: Date;
-  };
+// A calendar app error in the user's language; fallback covers errors that are not the calendar app's
+function describeError(tr: Translator, error: unknown, fallback: MessageKey = 'common.tryLater'): string {
+  return describeCalendarError(error, tr.t(fallback), {
+    unauthorized: tr.t('calendar.unauthorized'),
+    unavailable: tr.t('calendar.unavailable'),
+  });
 }
 
 class DiscordBotService {
   private client: Client | null = null;
+  private outbox: Outbox | null = null;
+  private forwardedMessages: ForwardedMessageStore | null = null;
+  private guildConfigs: GuildConfigStore | null = null;
+  private receivers: ReceiverRouter | null = null;
+  // One client per receiver profile, by profile name
+  private calendars = new Map<string, CalendarClient>();
+  private receiverProbe: { reachable: boolean; checkedAt: number } | null = null;
+  private eventPager = new EventPager();
+  private registrations: RegistrationCache | null = null;
+  private blocklist: BlocklistStore | null = null;
+  private userPreferences: UserPreferencesStore | null = null;
+  private digests: DigestScheduler | null = null;
+  private rateLimiter = new RateLimiter();
+  // Cap on receiver requests across every profile
+  private receiverSlots: ConcurrencyLimiter | null = null;
+  // Per-profile caps, so one slow backend can't take every shared slot
+  private profileSlots = new Map<string, ConcurrencyLimiter>();
+  private signer: RequestSigner | null = null;
+  private channelSink: ChannelSink | null = null;
   private isRunning = false;
 
   private get config() {
     const receiverUrl = process.env.RECEIVER_URL || 'http://localhost:3000/api/receiver/image';
-    const calendarAppUrl = receiverUrl.replace('/api/receiver/image', '');
+    // Prefer an explicit base URL; deriving it from RECEIVER_URL is kept for existing deployments
+    const calendarAppUrl = process.env.CALENDAR_APP_URL || deriveCalendarAppUrl(receiverUrl);
     
     return {
       BOT_TOKEN: process.env.DISCORD_BOT_TOKEN,
       RECEIVER_URL: receiverUrl,
       CALENDAR_APP_URL: calendarAppUrl,
+      CALENDAR_API_TIMEOUT_MS: parseInt(process.env.CALENDAR_API_TIMEOUT_MS || '10000'),
       RECEIVER_TOKEN: process.env.IMAGE_RECEIVER_TOKEN || '',
+      // JSON routing table of receiver profiles by guild, channel and DM; without it everything goes to RECEIVER_URL
+      RECEIVER_ROUTES_PATH: process.env.RECEIVER_ROUTES_PATH || '',
       ALLOWED_CHANNELS: (process.env.ALLOWED_CHANNELS || '')
         .split(',')
         .map(s => s.trim())
+        .filter(Boolean),
+      // Guilds to sync slash commands to; empty means register them globally
+      COMMAND_GUILD_IDS: (process.env.COMMAND_GUILD_IDS || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean),
+      SYNC_COMMANDS: process.env.SYNC_COMMANDS !== 'false',
+      // Discord user IDs allowed to run admin commands such as /outbox
+      ADMIN_USER_IDS: (process.env.ADMIN_USER_IDS || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean),
+      OUTBOX_DIR: process.env.OUTBOX_DIR || './data/outbox',
+      OUTBOX_MAX_ATTEMPTS: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '8'),
+      OUTBOX_BASE_DELAY_MS: parseInt(process.env.OUTBOX_BASE_DELAY_MS || '5000'),
+      OUTBOX_MAX_DELAY_MS: parseInt(process.env.OUTBOX_MAX_DELAY_MS || '900000'),
+      // Forwarded messages whose edits and deletes are synced to the receiver
+      FORWARDED_MESSAGES_PATH: process.env.FORWARDED_MESSAGES_PATH || './data/forwarded-messages.json',
+      FORWARD_TRACKING_DAYS: parseInt(process.env.FORWARD_TRACKING_DAYS || '30'),
+      // How long active accounts, and separately unregistered users, are cached between calendar app lookups
+      REGISTRATION_CACHE_TTL_MS: parseInt(process.env.REGISTRATION_CACHE_TTL_MS || '300000'),
+      REGISTRATION_NEGATIVE_CACHE_TTL_MS: parseInt(process.env.REGISTRATION_NEGATIVE_CACHE_TTL_MS || '30000'),
+      GUILD_CONFIG_PATH: process.env.GUILD_CONFIG_PATH || './data/guild-config.json',
+      BLOCKLIST_PATH: process.env.BLOCKLIST_PATH || './data/blocklist.json',
+      DIGESTS_PATH: process.env.DIGESTS_PATH || './data/digests.json',
+      // Language and time zone for users who have not chosen their own, and for digests
+      DEFAULT_LOCALE: (process.env.DEFAULT_LOCALE || 'en').toLowerCase(),
+      DEFAULT_TIMEZONE: process.env.DEFAULT_TIMEZONE || 'UTC',
+      USER_PREFERENCES_PATH: process.env.USER_PREFERENCES_PATH || './data/user-preferences.json',
+      // Token buckets as "<count>/<window>", e.g. "10/1m"; "off" disables a limit
+      RATE_LIMIT_FORWARD_USER: parseRateLimitRule(process.env.RATE_LIMIT_FORWARD_USER ?? '10/1m'),
+      RATE_LIMIT_FORWARD_GUILD: parseRateLimitRule(process.env.RATE_LIMIT_FORWARD_GUILD ?? '60/1m'),
+      RATE_LIMIT_COMMAND_USER: parseRateLimitRule(process.env.RATE_LIMIT_COMMAND_USER ?? '10/1m'),
+      RATE_LIMIT_COMMAND_GUILD: parseRateLimitRule(process.env.RATE_LIMIT_COMMAND_GUILD ?? '60/1m'),
+      // Per-command overrides of the user limit; !register starts a new OAuth flow each time, so it gets a tight one
+      RATE_LIMIT_COMMANDS: {
+        register: parseRateLimitRule('3/10m'),
+        ...parseCommandRules(process.env.RATE_LIMIT_COMMANDS),
+      } as Record<string, RateLimitRule | null>,
+      RECEIVER_MAX_CONCURRENCY: parseInt(process.env.RECEIVER_MAX_CONCURRENCY || '4'),
+      // Defaults to the global cap, i.e. no extra limit per receiver profile
+      RECEIVER_MAX_CONCURRENCY_PER_PROFILE: parseInt(process.env.RECEIVER_MAX_CONCURRENCY_PER_PROFILE || process.env.RECEIVER_MAX_CONCURRENCY || '4'),
+      // How long one receiver request may take before it is abandoned and retried later
+      RECEIVER_TIMEOUT_MS: parseInt(process.env.RECEIVER_TIMEOUT_MS || '30000'),
+      MAX_ATTACHMENTS_PER_MESSAGE: parseInt(process.env.MAX_ATTACHMENTS_PER_MESSAGE || '10'),
+      MAX_ATTACHMENT_BYTES: parseInt(process.env.MAX_ATTACHMENT_BYTES || String(20 * 1024 * 1024)),
+      // Comma-separated content types forwarded by default; servers can override with /config attachments
+      ATTACHMENT_TYPES: (process.env.ATTACHMENT_TYPES || '')
+        .split(',')
+        .map(s => s.trim().toLowerCase())
         .filter(Boolean)
     };
   }
 
-  private validateConfig() {
-    const { BOT_TOKEN, RECEIVER_TOKEN, RECEIVER_URL } = this.config;
+  // The bot token is only needed to connect to the gateway, so offline runs skip it
+  private validateConfig(gateway: boolean) {
+    const { BOT_TOKEN, RECEIVER_TOKEN, RECEIVER_URL, RECEIVER_ROUTES_PATH, DEFAULT_LOCALE, DEFAULT_TIMEZONE } = this.config;
     
-    if (!BOT_TOKEN) {
+    if (gateway && !BOT_TOKEN) {
       throw new Error('Missing DISCORD_BOT_TOKEN in environment variables');
     }
-    if (!RECEIVER_TOKEN) {
+    // A routing table can define every profile itself; it is checked when it is loaded
+    if (!RECEIVER_TOKEN && !RECEIVER_ROUTES_PATH) {
       throw new Error('Missing IMAGE_RECEIVER_TOKEN in environment variables');
     }
     if (!RECEIVER_URL) {
       throw new Error('Missing RECEIVER_URL in environment variables');
     }
+    if (!isLocale(DEFAULT_LOCALE)) {
+      throw new Error(`DEFAULT_LOCALE must be one of: ${Object.keys(localeNames).join(', ')}`);
+    }
+    if (!isValidTimeZone(DEFAULT_TIMEZONE)) {
+      throw new Error(`DEFAULT_TIMEZONE is not a known time zone: ${DEFAULT_TIMEZONE}`);
+    }
   }
 
   async start() {
     if (this.isRunning) {
-      console.log('Discord bot is already running');
+      log.info('Discord bot is already running');
       return;
     }
 
     try {
-      this.validateConfig();
+      this.validateConfig(true);
+      await this.startServices();
       
       this.client = new Client({
         intents: [
@@ -87,420 +321,1975 @@ class DiscordBotService {
       
       await this.client.login(this.config.BOT_TOKEN);
       this.isRunning = true;
-      console.log('🤖 Discord bot service started successfully');
+      log.info('Discord bot service started');
+    } catch (error) {
+      log.error('Failed to start Discord bot', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start everything except the Discord gateway, for the offline simulator.
+   * Events are fed in through the simulate* methods, and anything the bot
+   * would post to a channel outside of a reply goes to sendToChannel.
+   */
+  async startOffline(sendToChannel: ChannelSink) {
+    if (this.isRunning) {
+      log.info('Discord bot is already running');
+      return;
+    }
+
+    try {
+      this.validateConfig(false);
+      this.channelSink = sendToChannel;
+      await this.startServices();
+      this.isRunning = true;
+      log.info('Discord bot service started offline');
     } catch (error) {
-      console.error('Failed to start Discord bot:', error);
+      log.error('Failed to start Discord bot offline', { error });
       throw error;
     }
   }
 
+  // Stores, outbox, digests and API clients: everything that does not need the gateway
+  private async startServices() {
+    const { current: signingKey } = loadSigningKeys(process.env);
+    this.signer = signingKey ? new RequestSigner(signingKey) : null;
+    if (!this.signer) {
+      log.warn('SIGNING_KEY is not set, requests to the calendar app are not signed');
+    }
+
+    const { RECEIVER_URL, CALENDAR_APP_URL, RECEIVER_TOKEN, RECEIVER_ROUTES_PATH } = this.config;
+    const envProfile: ReceiverProfile | null = RECEIVER_TOKEN
+      ? { name: DEFAULT_PROFILE, receiverUrl: RECEIVER_URL, calendarAppUrl: CALENDAR_APP_URL, token: RECEIVER_TOKEN, contentTypes: null }
+      : null;
+    this.receivers = await loadReceiverRoutes(RECEIVER_ROUTES_PATH || null, envProfile, process.env);
+
+    const { RECEIVER_MAX_CONCURRENCY, RECEIVER_MAX_CONCURRENCY_PER_PROFILE } = this.config;
+    this.receiverSlots = new ConcurrencyLimiter(Math.max(1, RECEIVER_MAX_CONCURRENCY));
+    this.calendars.clear();
+    this.profileSlots.clear();
+    for (const profile of this.receivers.list()) {
+      this.calendars.set(profile.name, new CalendarClient({
+        baseUrl: profile.calendarAppUrl,
+        timeoutMs: this.config.CALENDAR_API_TIMEOUT_MS,
+        signer: this.signer,
+      }));
+      this.profileSlots.set(profile.name, new ConcurrencyLimiter(Math.max(1, RECEIVER_MAX_CONCURRENCY_PER_PROFILE)));
+    }
+    log.info('Loaded receiver profiles', { profiles: this.receivers.list().map(profile => profile.name), default: this.receivers.defaultProfile.name });
+
+    this.registrations = new RegistrationCache(this.config.REGISTRATION_CACHE_TTL_MS, this.config.REGISTRATION_NEGATIVE_CACHE_TTL_MS);
+
+    const { OUTBOX_DIR, OUTBOX_MAX_ATTEMPTS, OUTBOX_BASE_DELAY_MS, OUTBOX_MAX_DELAY_MS } = this.config;
+    this.outbox = new Outbox({
+      dir: OUTBOX_DIR,
+      maxAttempts: OUTBOX_MAX_ATTEMPTS,
+      baseDelayMs: OUTBOX_BASE_DELAY_MS,
+      maxDelayMs: OUTBOX_MAX_DELAY_MS,
+      pollIntervalMs: 5000,
+    });
+    await this.outbox.init();
+
+    const { FORWARDED_MESSAGES_PATH, FORWARD_TRACKING_DAYS } = this.config;
+    this.forwardedMessages = new ForwardedMessageStore(FORWARDED_MESSAGES_PATH, FORWARD_TRACKING_DAYS * 24 * 60 * 60 * 1000);
+    await this.forwardedMessages.init();
+
+    // ALLOWED_CHANNELS stays the default for guilds that have not configured their own channels
+    this.guildConfigs = new GuildConfigStore(this.config.GUILD_CONFIG_PATH, {
+      allowedChannels: this.config.ALLOWED_CHANNELS,
+      textForwarding: true,
+      attachmentTypes: this.config.ATTACHMENT_TYPES.length > 0 ? this.config.ATTACHMENT_TYPES : DEFAULT_ATTACHMENT_TYPES,
+      verbosity: 'normal',
+    });
+    await this.guildConfigs.init();
+
+    this.blocklist = new BlocklistStore(this.config.BLOCKLIST_PATH);
+    await this.blocklist.init();
+    this.userPreferences = new UserPreferencesStore(this.config.USER_PREFERENCES_PATH);
+    await this.userPreferences.init();
+    this.digests = new DigestScheduler(this.config.DIGESTS_PATH);
+    await this.digests.init();
+    this.digests.start((schedule, window) => this.postDigest(schedule, window));
+
+    this.outbox.start(item => this.sendOutboxItem(item), item => this.notifyDeadLetter(item));
+  }
+
   async stop() {
-    if (!this.isRunning || !this.client) {
+    if (!this.isRunning) {
       return;
     }
 
     try {
-      await this.client.destroy();
+      await this.outbox?.stop();
+      await this.forwardedMessages?.flush();
+      await this.guildConfigs?.flush();
+      await this.blocklist?.flush();
+      await this.userPreferences?.flush();
+      await this.digests?.stop();
+      await this.client?.destroy();
       this.client = null;
+      this.channelSink = null;
       this.isRunning = false;
-      console.log('🤖 Discord bot service stopped');
+      log.info('Discord bot service stopped');
     } catch (error) {
-      console.error('Error stopping Discord bot:', error);
+      log.error('Error stopping Discord bot', { error });
     }
   }
 
-  private setupEventHandlers() {
-    if (!this.client) return;
+  /**
+   * Readiness for /readyz: the gateway session is up and every receiver
+   * profile answers HTTP requests. The receiver probe is cached briefly so
+   * frequent polling does not hammer them.
+   */
+  async getReadiness(): Promise<{ ready: boolean; gateway: boolean; receiver: boolean }> {
+    const gateway = this.isRunning && !!this.client?.isReady() && this.client.ws.status === Status.Ready;
+    const receiver = await this.probeReceiver();
+    return { ready: gateway && receiver, gateway, receiver };
+  }
 
-    this.client.once(Events.ClientReady, (c) => {
-      console.log(`🤖 Logged in as ${c.user.tag}`);
-    });
+  private async probeReceiver(): Promise<boolean> {
+    const now = Date.now();
+    if (this.receiverProbe && now - this.receiverProbe.checkedAt < 10000) {
+      return this.receiverProbe.reachable;
+    }
 
-    this.client.on(Events.MessageCreate, async (message) => {
-      await this.handleMessage(message);
-    });
+    const profiles = this.receivers?.list() || [];
+    const results = await Promise.all(profiles.map(profile => this.probeProfile(profile)));
+    const reachable = profiles.length > 0 && results.every(Boolean);
+
+    this.receiverProbe = { reachable, checkedAt: now };
+    return reachable;
   }
 
-  private async forwardAttachment(message: Message, attachmentUrl: string, originalName?: string): Promise<boolean> {
+  private async probeProfile(profile: ReceiverProfile): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 3000);
     try {
-      const { RECEIVER_URL, RECEIVER_TOKEN } = this.config;
-      
-      console.log('🔄 [DISCORD] Starting attachment forward process');
-      console.log('🔄 [DISCORD] Attachment URL:', attachmentUrl);
-      console.log('🔄 [DISCORD] Original name:', originalName);
-      console.log('🔄 [DISCORD] Receiver URL:', RECEIVER_URL);
-      console.log('🔄 [DISCORD] Token length:', RECEIVER_TOKEN?.length || 0);
-      
-      // Get user's registered email
-      const userEmail = await this.getUserEmail(message.author.id);
-      if (!userEmail) {
-        console.log('❌ [DISCORD] User not registered, sending registration prompt');
-        await message.reply(`❌ **You need to register first!**\n\nTo link your Discord account with your email, use:\n\`!register your.email@example.com\`\n\nAfter registration, you can upload images and they will be saved to your calendar account.`);
-        return false;
+      // Any HTTP response, even a 4xx for a bare GET, means the receiver is reachable
+      const headers = this.signer ? this.signer.sign('GET', profile.receiverUrl) : undefined;
+      const res = await fetch(profile.receiverUrl, { method: 'GET', headers, signal: controller.signal });
+      if (res.status >= 500) {
+        log.warn('Receiver is not healthy', { receiver: profile.name, status: res.status });
       }
-      
-      console.log('✅ [DISCORD] User registered with email:', userEmail);
-      
-      // Fetch the attachment bytes
-      console.log('📥 [DISCORD] Fetching attachment from Discord...');
-      const res = await fetch(attachmentUrl);
-      if (!res.ok) {
-        console.error('❌ [DISCORD] Failed to fetch attachment:', res.status, res.statusText);
-        throw new Error(`Failed to fetch attachment: ${res.status} ${res.statusText}`);
-      }
-      const contentType = res.headers.get('content-type') || 'application/octet-stream';
-      const buffer = Buffer.from(await res.arrayBuffer());
-      console.log('📥 [DISCORD] Attachment fetched successfully, size:', buffer.length, 'bytes, type:', contentType);
+      return res.status < 500;
+    } catch (error) {
+      log.warn('Receiver is unreachable', { receiver: profile.name, error });
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
 
-      // Build multipart using FormData compatible with node-fetch@3
-      console.log('📦 [DISCORD] Building FormData...');
-      const formData = new FormData();
-      const blob = new Blob([buffer], { type: contentType });
-      formData.set('file', blob, originalName || 'image');
-      formData.set('source', 'discord');
-      formData.set('discordMessageId', message.id);
-      formData.set('discordChannelId', message.channelId);
-      formData.set('discordAuthorId', message.author.id);
-      formData.set('userEmail', userEmail);
-      console.log('📦 [DISCORD] FormData built with keys:', Array.from(formData.keys()));
-      console.log('📦 [DISCORD] User email included:', userEmail);
-
-      console.log('🚀 [DISCORD] Sending POST request to receiver...');
-      const upload = await fetch(RECEIVER_URL, {
-        method: 'POST',
-        headers: {
-          'x-receiver-token': RECEIVER_TOKEN,
-        },
-        body: formData as any,
-      });
+  /**
+   * Deliver a calendar app notification: reply to the original message when
+   * the channel and message are known, otherwise DM the user.
+   */
+  async deliverNotification(notification: CalendarNotification): Promise<'channel' | 'dm'> {
+    if (!this.client) {
+      throw new Error('Discord bot is not running');
+    }
 
-      console.log('📡 [DISCORD] Received response, status:', upload.status, upload.statusText);
-      console.log('📡 [DISCORD] Response headers:', Object.fromEntries(upload.headers.entries()));
-      
-      const json = await upload.json();
-      console.log('📡 [DISCORD] Response body:', JSON.stringify(json, null, 2));
-      
-      if (!upload.ok || !json) {
-        console.error('❌ [DISCORD] Receiver responded with error', upload.status, json);
-        return false;
+    if (notification.type === 'oauth.completed') {
+      // The active account may have changed; look it up again on the next forward
+      this.registrations?.invalidate(notification.discordId);
+    }
+
+    const payload = formatNotification(notification, this.translatorFor(notification.discordId));
+
+    if (notification.discordChannelId && notification.discordMessageId) {
+      const channel = await this.client.channels.fetch(notification.discordChannelId).catch(() => null);
+      if (channel && channel.isSendable()) {
+        try {
+          await channel.send({
+            ...payload,
+            content: `<@${notification.discordId}> ${payload.content || ''}`.trim(),
+            reply: { messageReference: notification.discordMessageId, failIfNotExists: false },
+            allowedMentions: { users: [notification.discordId] },
+          });
+          return 'channel';
+        } catch (error) {
+          log.warn('Could not post notification in channel, falling back to DM', { error });
+        }
       }
+    }
 
-      console.log('✅ [DISCORD] Successfully forwarded image:', json ? 'SUCCESS' : 'FAILED');
-      return true;
-    } catch (err) {
-      console.error('❌ [DISCORD] Error forwarding attachment:', err);
-      console.error('❌ [DISCORD] Error stack:', err instanceof Error ? err.stack : 'No stack trace');
-      return false;
+    const user = await this.client.users.fetch(notification.discordId);
+    await user.send(payload);
+    return 'dm';
+  }
+
+  // Entry points for the simulator, mirroring the gateway event handlers below
+
+  async simulateMessage(message: Message) {
+    await withCorrelationId(newCorrelationId(), () => this.handleMessage(message));
+  }
+
+  async simulateMessageUpdate(message: Message) {
+    await withCorrelationId(newCorrelationId(), () => this.handleMessageUpdate(message));
+  }
+
+  async simulateMessageDelete(messageId: string) {
+    await withCorrelationId(newCorrelationId(), () => this.handleMessageDelete(messageId));
+  }
+
+  async simulateInteraction(interaction: Interaction) {
+    await withCorrelationId(newCorrelationId(), () => this.handleInteraction(interaction));
+  }
+
+  // A channel to post to: fetched through the gateway, or the simulator's sink when offline
+  private async sendableChannel(channelId: string): Promise<{ send(options: MessageCreateOptions): Promise<unknown> } | null> {
+    if (this.client) {
+      const channel = await this.client.channels.fetch(channelId).catch(() => null);
+      return channel && channel.isSendable() ? channel : null;
     }
+    const sink = this.channelSink;
+    return sink ? { send: options => sink(channelId, options) } : null;
   }
 
-  private async forwardText(message: Message): Promise<boolean> {
-    try {
-      const { RECEIVER_URL, RECEIVER_TOKEN } = this.config;
-      const content = (message.content || '').trim();
-      if (!content) {
-        console.log('⚠️ [DISCORD] No text content to forward');
-        return false;
+  private setupEventHandlers() {
+    if (!this.client) return;
+
+    this.client.once(Events.ClientReady, async (c) => {
+      log.info('Logged in', { user: c.user.tag });
+
+      const { BOT_TOKEN, COMMAND_GUILD_IDS, SYNC_COMMANDS } = this.config;
+      if (!SYNC_COMMANDS || !BOT_TOKEN) return;
+
+      try {
+        await syncCommands(BOT_TOKEN, c.application.id, COMMAND_GUILD_IDS);
+      } catch (error) {
+        log.error('Failed to sync application commands', { error });
       }
+    });
 
-      console.log('📝 [DISCORD] Forwarding text message, length:', content.length);
-      console.log('📝 [DISCORD] Text preview:', content.substring(0, 100) + (content.length > 100 ? '...' : ''));
+    this.client.on(Events.ShardReconnecting, (shardId) => {
+      log.warn('Gateway shard reconnecting', { shardId });
+      gatewayReconnects.inc();
+    });
 
-      const formData = new FormData();
-      formData.set('text', content);
-      formData.set('source', 'discord');
-      formData.set('discordMessageId', message.id);
-      formData.set('discordChannelId', message.channelId);
-      formData.set('discordAuthorId', message.author.id);
-
-      console.log('🚀 [DISCORD] Sending text POST request to receiver...');
-      const res = await fetch(RECEIVER_URL, {
-        method: 'POST',
-        headers: {
-          'x-receiver-token': RECEIVER_TOKEN,
-        },
-        body: formData as any,
+    // Every incoming event gets a correlation ID, carried by its log lines and receiver requests
+    this.client.on(Events.MessageCreate, async (message) => {
+      await withCorrelationId(newCorrelationId(), () => this.handleMessage(message));
+    });
+
+    this.client.on(Events.MessageUpdate, async (_oldMessage, newMessage) => {
+      await withCorrelationId(newCorrelationId(), () => this.handleMessageUpdate(newMessage));
+    });
+
+    this.client.on(Events.MessageDelete, async (message) => {
+      await withCorrelationId(newCorrelationId(), () => this.handleMessageDelete(message.id));
+    });
+
+    this.client.on(Events.MessageBulkDelete, async (messages) => {
+      await withCorrelationId(newCorrelationId(), async () => {
+        for (const messageId of messages.keys()) {
+          await this.handleMessageDelete(messageId);
+        }
       });
+    });
 
-      console.log('📡 [DISCORD] Text response status:', res.status, res.statusText);
-      const json = await res.json();
-      console.log('📡 [DISCORD] Text response body:', JSON.stringify(json, null, 2));
-      
-      if (!res.ok || !json) {
-        console.error('❌ [DISCORD] Receiver responded with error for text', res.status, json);
-        return false;
-      }
-      console.log('✅ [DISCORD] Successfully forwarded text:', json ? 'SUCCESS' : 'FAILED');
-      return true;
-    } catch (err) {
-      console.error('❌ [DISCORD] Error forwarding text:', err);
-      console.error('❌ [DISCORD] Text error stack:', err instanceof Error ? err.stack : 'No stack trace');
-      return false;
-    }
+    this.client.on(Events.InteractionCreate, async (interaction) => {
+      await withCorrelationId(newCorrelationId(), () => this.handleInteraction(interaction));
+    });
   }
 
-  private async handleMessage(message: Message) {
+  private async handleInteraction(interaction: Interaction) {
     try {
-      console.log('💬 [DISCORD] Received message from:', message.author.tag, 'in channel:', message.channelId);
-      console.log('💬 [DISCORD] Message ID:', message.id, 'Guild ID:', message.guildId || 'DM');
-      
-      if (message.author.bot) {
-        console.log('🤖 [DISCORD] Ignoring bot message');
+      if (this.isBlocked(interaction.user.id)) {
+        log.info('Ignoring interaction from blocked user', { userId: interaction.user.id });
+        if (interaction.isAutocomplete()) {
+          await interaction.respond([]);
+        } else if (interaction.isRepliable()) {
+          const tr = this.translatorFor(interaction.user.id, interaction.locale);
+          await interaction.reply({ content: tr.t('common.blocked'), flags: MessageFlags.Ephemeral });
+        }
         return;
       }
 
-      // Handle registration command
-      if (message.content.startsWith('!register')) {
-        await this.handleRegistrationCommand(message);
+      if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
         return;
       }
 
-      // Handle status check command
-      if (message.content === '!status' || message.content === '!whoami') {
-        await this.handleStatusCommand(message);
+      if (interaction.isChatInputCommand()) {
+        await this.handleChatInputCommand(interaction);
         return;
       }
 
-      // Handle accounts list command
-      if (message.content === '!accounts') {
-        await this.handleAccountsCommand(message);
+      if (interaction.isMessageContextMenuCommand() && interaction.commandName === ADD_TO_CALENDAR_COMMAND) {
+        await this.handleAddToCalendar(interaction);
         return;
       }
 
-      // Handle account switch command
-      if (message.content.startsWith('!switch')) {
-        await this.handleSwitchCommand(message);
+      if (interaction.isButton()) {
+        if (parseEventPageId(interaction.customId)) {
+          await this.handleEventPageButton(interaction);
+        } else if (parseForgetMeButtonId(interaction.customId)) {
+          await this.handleForgetMeButton(interaction);
+        } else {
+          await this.handleEventButton(interaction);
+        }
         return;
       }
 
-      const { ALLOWED_CHANNELS } = this.config;
-      
-      // In guild channels, optionally restrict by ALLOWED_CHANNELS; always allow DMs
-      if (message.guildId && ALLOWED_CHANNELS.length > 0 && !ALLOWED_CHANNELS.includes(message.channelId)) {
-        console.log('🚫 [DISCORD] Channel not in whitelist, ignoring message');
-        return; // ignore channels not whitelisted
+      if (interaction.isModalSubmit()) {
+        await this.handleEventModal(interaction);
       }
+    } catch (err) {
+      log.error('Interaction handler error', { error: err });
+    }
+  }
 
-      // If message has attachments, forward the first image-type attachment
-      const attachments = Array.from(message.attachments.values());
-      console.log('📎 [DISCORD] Message has', attachments.length, 'attachments');
-      
-      if (attachments.length > 0) {
-        for (const att of attachments) {
-          console.log('📎 [DISCORD] Processing attachment:', att.name, 'type:', att.contentType, 'size:', att.size);
-          const lower = (att.contentType || '').toLowerCase();
-          if (lower.includes('image/jpeg') || lower.includes('image/png') || lower.includes('image/webp') || lower.includes('image/gif')) {
-            console.log('🖼️ [DISCORD] Found image attachment, forwarding...');
-            const ok = await this.forwardAttachment(message, att.url, att.name || undefined);
-            // Acknowledge in DMs so users get feedback
-            if (!message.guildId) {
-              if (ok) {
-                console.log('✅ [DISCORD] Sending success reply to DM');
-                await message.reply('Got it! I received your image and started processing.');
-              } else {
-                console.log('❌ [DISCORD] Sending error reply to DM');
-                await message.reply('Sorry, I could not process that image. Please try again.');
-              }
-            }
-          } else {
-            console.log('⚠️ [DISCORD] Attachment is not a supported image type');
-          }
-        }
-        return;
-      }
+  private async handleChatInputCommand(interaction: ChatInputCommandInteraction) {
+    log.info('Slash command', { command: interaction.commandName, userId: interaction.user.id });
 
-      // No attachments; if there's text content, forward it (but skip commands)
-      if (message.content && message.content.trim().length > 0) {
-        // Skip forwarding if it's a command that we don't recognize
-        if (message.content.startsWith('!')) {
-          console.log('⚠️ [DISCORD] Unrecognized command, ignoring:', message.content);
-          return;
-        }
-        console.log('📝 [DISCORD] Message has text content, forwarding...');
-        await this.forwardText(message);
-        // We intentionally do not reply to text to avoid noise; logging happens on the server
-        return;
+    // Replies are only visible to the invoking user, which keeps OAuth links private
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const ctx = contextFromInteraction(interaction, this.translatorFor(interaction.user.id, interaction.locale));
+    if (!(await this.admitCommand(ctx, interaction.commandName, 'slash'))) return;
+
+    switch (interaction.commandName) {
+      case 'register':
+        await this.handleRegistrationCommand(ctx);
+        break;
+      case 'status':
+        await this.handleStatusCommand(ctx);
+        break;
+      case 'accounts':
+        await this.handleAccountsCommand(ctx);
+        break;
+      case 'switch':
+        await this.handleSwitchCommand(ctx, interaction.options.getInteger('account', true));
+        break;
+      case 'unlink':
+        await this.handleUnlinkCommand(ctx, interaction.options.getInteger('account', true));
+        break;
+      case 'forget-me':
+        await ctx.reply(buildForgetMePrompt(ctx.userId, ctx.i18n));
+        break;
+      case 'language':
+        await this.handleLanguageCommand(
+          ctx,
+          interaction.locale,
+          interaction.options.getString('language'),
+          interaction.options.getString('timezone'),
+        );
+        break;
+      case 'receiver': {
+        const channel = interaction.options.getChannel('channel');
+        // Uncached channels arrive as raw API data; those are routed as plain channels
+        await this.handleReceiverCommand(ctx, channel && {
+          channelId: channel.id,
+          parentChannelId: 'isThread' in channel ? threadParentId(channel) : null,
+        });
+        break;
       }
-      
-      console.log('⚠️ [DISCORD] Message has no processable content');
-    } catch (err) {
-      console.error('❌ [DISCORD] Message handler error:', err);
-      console.error('❌ [DISCORD] Handler error stack:', err instanceof Error ? err.stack : 'No stack trace');
+      case 'today':
+        await this.handleTodayCommand(ctx);
+        break;
+      case 'upcoming':
+        await this.handleUpcomingCommand(ctx, interaction.options.getInteger('days') ?? 7);
+        break;
+      case 'find':
+        await this.handleFindCommand(ctx, interaction.options.getString('query', true));
+        break;
+      case 'config':
+        await this.handleConfigCommand(ctx, this.configActionFromInteraction(interaction));
+        break;
+      case 'digest':
+        await this.handleDigestCommand(ctx, this.digestActionFromInteraction(interaction));
+        break;
+      case 'outbox':
+        await this.handleOutboxCommand(ctx, interaction.options.getSubcommand(), interaction.options.getString('id'));
+        break;
+      case 'blocklist':
+        await this.handleBlocklistCommand(
+          ctx,
+          interaction.options.getSubcommand(),
+          interaction.options.getString('user_id'),
+          interaction.options.getString('reason'),
+        );
+        break;
+      default:
+        await ctx.reply(ctx.i18n.t('common.unknownCommand'));
+    }
+  }
+
+  private configActionFromInteraction(interaction: ChatInputCommandInteraction): ConfigAction {
+    const group = interaction.options.getSubcommandGroup();
+    const subcommand = interaction.options.getSubcommand();
+
+    if (group === 'channels') {
+      const channelId = interaction.options.getChannel('channel', true).id;
+      return { kind: subcommand === 'add' ? 'channel-add' : 'channel-remove', channelId };
+    }
+    switch (subcommand) {
+      case 'text':
+        return { kind: 'text', enabled: interaction.options.getString('state', true) === 'on' };
+      case 'attachments':
+        return { kind: 'attachments', types: interaction.options.getString('types', true) };
+      case 'verbosity':
+        return { kind: 'verbosity', level: interaction.options.getString('level', true) as ReplyVerbosity };
+      default:
+        return { kind: 'show' };
     }
   }
 
-  private async handleRegistrationCommand(message: Message) {
+  private async handleAutocomplete(interaction: AutocompleteInteraction) {
+    if (interaction.commandName === 'digest' || interaction.commandName === 'language') {
+      const focused = String(interaction.options.getFocused()).toLowerCase();
+      const zones = Intl.supportedValuesOf('timeZone')
+        .filter(zone => zone.toLowerCase().includes(focused))
+        .slice(0, 25);
+      await interaction.respond(zones.map(zone => ({ name: zone, value: zone })));
+      return;
+    }
+
+    if (interaction.commandName !== 'switch' && interaction.commandName !== 'unlink') {
+      await interaction.respond([]);
+      return;
+    }
+
+    try {
+      const data = await this.calendarFor(this.profileFor(interaction)).listAccounts(interaction.user.id);
+      const focused = String(interaction.options.getFocused()).toLowerCase();
+      const tr = this.translatorFor(interaction.user.id, interaction.locale);
+
+      const choices = data.accounts
+        .map(account => ({
+          name: `${account.accountNumber}. ${account.email}${account.isActive ? tr.t('accounts.choiceActive') : ''}`,
+          value: account.accountNumber,
+        }))
+        .filter(choice => choice.name.toLowerCase().includes(focused))
+        .slice(0, 25);
+
+      await interaction.respond(choices);
+    } catch (error) {
+      log.error('Autocomplete error', { error });
+      await interaction.respond([]);
+    }
+  }
+
+  /**
+   * Forward every accepted attachment of a message as one upload, so the
+   * receiver can treat them as a single album. Calendar invites are parsed
+   * locally and sent separately as JSON. When invokerId is set, the
+   * attachments go to that user's account instead of the author's. Notes are
+   * written with tr.
+   */
+  private async forwardAttachments(message: Message, accepted: AcceptedAttachment[], tr: Translator, invokerId?: string): Promise<AttachmentBatchResult> {
+    const notes: string[] = [];
     try {
-      const content = message.content.trim();
+      const profile = this.profileFor(message);
+      log.info('Forwarding attachments', { messageId: message.id, count: accepted.length, invokerId, receiver: profile.name });
       
-      // Check if user provided any arguments (they shouldn't for OAuth flow)
-      if (content !== '!register') {
-        await message.reply('❌ Invalid format. Use: `!register` (no email needed - you\'ll authenticate with Google)');
-        return;
+      // Get user's registered email
+      const userEmail = await this.getUserEmail(invokerId || message.author.id, profile);
+      if (!userEmail) {
+        log.info('Requester is not registered', { userId: invokerId || message.author.id });
+        return { result: 'unregistered', notes };
       }
+      
+      
+      // Fetch the attachment bytes now, since Discord CDN URLs expire before late retries
+      const downloads = await Promise.all(accepted.map(({ attachment, kind }) => this.downloadAttachment(attachment, kind)));
 
-      const discordId = message.author.id;
-      const username = message.author.username;
-      const discriminator = message.author.discriminator;
+      const fields: Record<string, string> = {
+        action: 'create',
+        source: 'discord',
+        discordMessageId: message.id,
+        discordChannelId: message.channelId,
+        discordAuthorId: message.author.id,
+        userEmail,
+      };
+      if (invokerId) {
+        fields.discordInvokerId = invokerId;
+      }
+      const key = forwardKey(message, invokerId);
+      const items: OutboxItem[] = [];
 
-      console.log(`🔐 [DISCORD-OAUTH] Starting OAuth registration for ${discordId}`);
+      const files = downloads.filter(download => download.kind !== 'ics');
+      if (files.length > 0) {
+        items.push(await this.requireOutbox().enqueue({
+          id: `${key}:attachments`,
+          kind: files.some(file => file.kind !== 'pdf') ? 'image' : 'document',
+          receiver: profile.name,
+          fields: { ...fields, fileCount: String(files.length) },
+          files: files.map(({ name, contentType, data }) => ({ name, contentType, data })),
+        }));
+      }
 
-      // Call the OAuth initiation API
-      const { RECEIVER_URL } = this.config;
-      const oauthInitUrl = RECEIVER_URL.replace('/api/receiver/image', '/api/auth/oauth/initiate');
-      
-      const response = await fetch(oauthInitUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          discordId,
-          discordUsername: username
-        })
+      const events = [];
+      const inviteNames: string[] = [];
+      for (const invite of downloads.filter(download => download.kind === 'ics')) {
+        const parsed = parseIcs(invite.data.toString('utf8'));
+        if (parsed.length === 0) {
+          notes.push(tr.t('forward.noEvents', { name: invite.name }));
+          continue;
+        }
+        events.push(...parsed);
+        inviteNames.push(invite.name);
+      }
+      if (events.length > 0) {
+        log.info('Parsed events from calendar files', { count: events.length });
+        items.push(await this.requireOutbox().enqueue({
+          id: `${key}:events`,
+          kind: 'events',
+          receiver: profile.name,
+          fields: { ...fields, fileName: inviteNames.join(', '), events: JSON.stringify(events) },
+        }));
+      }
+
+      if (items.length === 0) {
+        return { result: 'rejected', notes };
+      }
+
+      // "Add to my calendar" copies are tracked with the author's forward, so edits and deletes reach them too
+      await this.requireForwardedMessages().record({
+        messageId: message.id,
+        channelId: message.channelId,
+        authorId: message.author.id,
+        kind: items[0].kind === 'events' || items[0].kind === 'document' ? items[0].kind : 'image',
+        receiver: profile.name,
+        outboxIds: items.map(item => item.id),
+        forwardedAt: new Date().toISOString(),
       });
 
-      const result = await response.json() as RegistrationResponse & { authUrl?: string };
+      const results = await Promise.all(items.map(async item => this.toForwardResult(await this.requireOutbox().deliver(item.id))));
+      // Report the worst outcome
+      const result = results.includes('failed') ? 'failed' : results.includes('queued') ? 'queued' : 'delivered';
+      return { result, notes };
+    } catch (err) {
+      log.error('Error forwarding attachments', { messageId: message.id, error: err });
+      return { result: 'failed', notes };
+    }
+  }
 
-      if (response.ok && result.success && result.authUrl) {
-        console.log(`✅ [DISCORD-OAUTH] OAuth URL generated for ${discordId}`);
-        
-        await message.reply({
-          content: `🔐 **Google Authentication Required**\n\n` +
-                  `To link your Discord account with a Google email, please click the link below:\n\n` +
-                  `🔗 **[Authenticate with Google](${result.authUrl})**\n\n` +
-                  `📋 **Multi-Account Support:**\n` +
-                  `• If this is your first account, it will be set as active\n` +
-                  `• If you already have accounts, this will add a new one or refresh an existing one\n` +
-                  `• Use \`!accounts\` to see all your registered accounts\n` +
-                  `• Use \`!switch [number]\` to switch between accounts\n\n` +
-                  `⚠️ This link expires in 10 minutes for security.\n` +
-                  `✅ After authentication, you'll be able to upload images that will be saved to your active calendar account.`,
-          flags: ['SuppressEmbeds']
-        });
-      } else {
-        console.error(`❌ [DISCORD-OAUTH] OAuth initiation failed:`, result.error);
-        await message.reply(`❌ Authentication setup failed: ${result.error || 'Unknown error'}`);
-      }
-    } catch (error) {
-      console.error('❌ [DISCORD-OAUTH] Registration command error:', error);
-      await message.reply('❌ Authentication setup failed due to a technical error. Please try again later.');
+  private async downloadAttachment(attachment: Attachment, kind: AttachmentKind): Promise<DownloadedAttachment> {
+    log.debug('Fetching attachment from Discord', { name: attachment.name });
+    const res = await fetch(attachment.url);
+    if (!res.ok) {
+      log.error('Failed to fetch attachment', { name: attachment.name, status: res.status });
+      throw new Error(`Failed to fetch attachment: ${res.status} ${res.statusText}`);
     }
+
+    const contentType = res.headers.get('content-type') || 'application/octet-stream';
+    const data: Buffer = Buffer.from(await res.arrayBuffer());
+    const name = attachment.name || 'attachment';
+    log.debug('Attachment fetched', { name: attachment.name, bytes: data.length, contentType });
+
+    if (kind === 'heic') {
+      log.debug('Converting HEIC to JPEG', { name: attachment.name });
+      return { kind, name: jpegFileName(name), contentType: 'image/jpeg', data: await convertHeicToJpeg(data) };
+    }
+    return { kind, name, contentType, data };
   }
 
-  private async handleStatusCommand(message: Message) {
-    try {
-      const discordId = message.author.id;
-      console.log(`🔍 [DISCORD-STATUS] Status check for ${discordId}`);
+  // Check a message's attachments against the guild's types, the receiver's types and the limits
+  private selectAttachments(
+    attachments: Attachment[],
+    guildConfig: GuildConfig,
+    profile: ReceiverProfile,
+    tr: Translator,
+  ): { accepted: AcceptedAttachment[]; notes: string[] } {
+    const accepted: AcceptedAttachment[] = [];
+    const notes: string[] = [];
 
-      // Call the registration check API
-      const { RECEIVER_URL } = this.config;
-      const statusUrl = RECEIVER_URL.replace('/api/receiver/image', '/api/discord/register') + `?discordId=${discordId}`;
-      
-      const response = await fetch(statusUrl);
-      const result = await response.json() as StatusResponse;
+    for (const att of attachments) {
+      log.debug('Checking attachment', { name: att.name, contentType: att.contentType, bytes: att.size });
+      const contentType = effectiveContentType(att.contentType, att.name);
+      const kind = classifyAttachment(contentType);
 
-      if (response.ok && result.success && result.registered) {
-        const user = result.user;
-        await message.reply(`✅ **Registration Status: ACTIVE**\n📧 Email: **${user?.email}**\n📅 Registered: ${user?.registeredAt ? new Date(user.registeredAt).toLocaleDateString() : 'Unknown'}`);
-      } else {
-        await message.reply(`❌ **Registration Status: NOT REGISTERED**\n\nTo register your Discord account with your email, use:\n\`!register your.email@example.com\``);
+      const rejection = this.checkAttachment(att, contentType, kind, guildConfig, profile, tr);
+      if (rejection || !kind) {
+        log.info('Attachment rejected', { name: att.name, contentType, bytes: att.size });
+        if (rejection) notes.push(rejection);
+        continue;
       }
-    } catch (error) {
-      console.error('❌ [DISCORD-STATUS] Status command error:', error);
-      await message.reply('❌ Unable to check registration status. Please try again later.');
+      accepted.push({ attachment: att, kind });
     }
+
+    const { MAX_ATTACHMENTS_PER_MESSAGE } = this.config;
+    if (accepted.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      const skipped = accepted.splice(MAX_ATTACHMENTS_PER_MESSAGE);
+      const names = tr.list(skipped.map(({ attachment }) => `\`${attachment.name}\``));
+      notes.push(tr.t('forward.tooMany', { max: MAX_ATTACHMENTS_PER_MESSAGE, names }));
+    }
+    return { accepted, notes };
   }
 
-  private async handleAccountsCommand(message: Message): Promise<void> {
-    try {
-      const discordId = message.author.id;
-      const response = await fetch(`${this.config.CALENDAR_APP_URL}/api/discord/accounts?discordId=${discordId}`);
-      const data = await response.json() as any;
+  // Reply line for a forwarded batch, or null when there is nothing to say at this verbosity
+  private summarizeAttachmentBatch(result: ForwardResult, accepted: AcceptedAttachment[], verbosity: ReplyVerbosity, tr: Translator): string | null {
+    const items = describeAttachments(accepted.map(({ kind }) => kind), tr);
+    if (result === 'delivered' && verbosity === 'verbose') {
+      return tr.t('forward.received', { items });
+    }
+    if (result === 'queued') {
+      return tr.t('forward.queued', { items });
+    }
+    if (result === 'failed') {
+      return tr.t('forward.failed', { items });
+    }
+    return null;
+  }
 
-      if (!data.success) {
-        await message.reply('❌ Failed to retrieve your accounts. Please try again later.');
-        return;
+  // Explain why an attachment will not be forwarded, or null if it is acceptable
+  private checkAttachment(
+    attachment: Attachment,
+    contentType: string,
+    kind: AttachmentKind | null,
+    guildConfig: GuildConfig,
+    profile: ReceiverProfile,
+    tr: Translator,
+  ): string | null {
+    const name = attachment.name || 'attachment';
+    const { MAX_ATTACHMENT_BYTES } = this.config;
+
+    if (!kind || !guildConfig.attachmentTypes.some(type => contentType.includes(type)) || !acceptsContentType(profile, contentType)) {
+      const types = guildConfig.attachmentTypes.filter(type => acceptsContentType(profile, type));
+      const accepted = types.length > 0 ? types.map(type => `\`${type}\``).join(', ') : tr.t('forward.noTypes');
+      return tr.t('forward.typeRejected', { name, contentType, accepted });
+    }
+    if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      return tr.t('forward.tooLarge', { name, size: formatBytes(attachment.size), limit: formatBytes(MAX_ATTACHMENT_BYTES) });
+    }
+    return null;
+  }
+
+  // Forward a message's text; with invokerId, to that user's account rather than the author's
+  private async forwardText(message: Message, invokerId?: string): Promise<ForwardResult> {
+    try {
+      const content = (message.content || '').trim();
+      if (!content) {
+        log.warn('No text content to forward', { messageId: message.id });
+        return 'failed';
       }
 
-      if (data.accounts.length === 0) {
-        await message.reply('📭 You have no Google accounts registered. Use `!register` to add your first account.');
-        return;
+      const profile = this.profileFor(message);
+      const fields: Record<string, string> = {
+        action: 'create',
+        text: content,
+        source: 'discord',
+        discordMessageId: message.id,
+        discordChannelId: message.channelId,
+        discordAuthorId: message.author.id,
+      };
+      if (invokerId) {
+        // The receiver otherwise resolves the account from the author, so name the invoker's explicitly
+        const userEmail = await this.getUserEmail(invokerId, profile);
+        if (!userEmail) {
+          return 'unregistered';
+        }
+        fields.discordInvokerId = invokerId;
+        fields.userEmail = userEmail;
       }
 
-      let accountsList = '📋 **Your Registered Google Accounts:**\n\n';
-      data.accounts.forEach((account: any) => {
-        const activeIndicator = account.isActive ? ' ✅ (Active)' : '';
-        accountsList += `**${account.accountNumber}.** ${account.email}${activeIndicator}\n`;
-        accountsList += `   Registered: ${new Date(account.registeredAt).toLocaleDateString()}\n\n`;
-      });
+      log.info('Forwarding text', { messageId: message.id, length: content.length, invokerId, receiver: profile.name });
 
-      accountsList += `Total accounts: **${data.totalAccounts}**\n\n`;
-      accountsList += 'Use `!switch [number]` to switch between accounts.';
+      const item = await this.requireOutbox().enqueue({
+        id: `${forwardKey(message, invokerId)}:text`,
+        kind: 'text',
+        receiver: profile.name,
+        fields,
+      });
+      await this.requireForwardedMessages().record({
+        messageId: message.id,
+        channelId: message.channelId,
+        authorId: message.author.id,
+        kind: 'text',
+        receiver: profile.name,
+        outboxIds: [item.id],
+        contentHash: hashContent(content),
+        forwardedAt: new Date().toISOString(),
+      });
 
-      await message.reply(accountsList);
-    } catch (error) {
-      console.error('Error handling accounts command:', error);
-      await message.reply('❌ An error occurred while retrieving your accounts.');
+      return this.toForwardResult(await this.requireOutbox().deliver(item.id));
+    } catch (err) {
+      log.error('Error forwarding text', { messageId: message.id, error: err });
+      return 'failed';
     }
   }
 
-  private async handleSwitchCommand(message: Message): Promise<void> {
+  // Sync an edit of a forwarded text message to the receiver
+  private async handleMessageUpdate(message: Message | PartialMessage) {
     try {
-      const args = message.content.trim().split(/\s+/);
-      if (args.length !== 2) {
-        await message.reply('❌ Invalid format. Use: `!switch [account_number]`\n\nExample: `!switch 2`\n\nUse `!accounts` to see your registered accounts.');
-        return;
-      }
+      const tracked = this.requireForwardedMessages().get(message.id);
+      // Image captions are not forwarded, so only text edits matter
+      if (!tracked || tracked.kind !== 'text') return;
 
-      const accountNumber = parseInt(args[1]);
-      if (isNaN(accountNumber) || accountNumber < 1) {
-        await message.reply('❌ Please provide a valid account number. Use `!accounts` to see your registered accounts.');
+      const full = message.partial ? await message.fetch() : message;
+      const content = (full.content || '').trim();
+      const contentHash = hashContent(content);
+      if (!content || contentHash === tracked.contentHash) return;
+
+      log.info('Forwarded message edited', { messageId: message.id });
+      await this.requireForwardedMessages().setContentHash(message.id, contentHash);
+
+      // Forwards that have not been sent yet (the author's and any "Add to my calendar" copies) just send the new text instead
+      const amended = await Promise.all(tracked.outboxIds.map(id => this.requireOutbox().amend(id, { text: content })));
+      if (amended.every(Boolean)) {
+        log.info('Updated pending forward in place', { messageId: message.id });
         return;
       }
 
-      const discordId = message.author.id;
-      const switchUrl = `${this.config.CALENDAR_APP_URL}/api/discord/accounts`;
-      
-      const response = await fetch(switchUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+      const item = await this.requireOutbox().enqueue({
+        id: `discord:${message.id}:update:${full.editedTimestamp || Date.now()}`,
+        kind: 'update',
+        receiver: tracked.receiver,
+        fields: {
+          action: 'update',
+          text: content,
+          source: 'discord',
+          discordMessageId: message.id,
+          discordChannelId: tracked.channelId,
+          discordAuthorId: tracked.authorId,
         },
-        body: JSON.stringify({
-          discordId,
-          accountNumber
-        })
       });
+      await this.requireOutbox().deliver(item.id);
+    } catch (err) {
+      log.error('Message update handler error', { error: err });
+    }
+  }
+
+  // Retract a forwarded message that was deleted from Discord
+  private async handleMessageDelete(messageId: string) {
+    try {
+      const tracked = this.requireForwardedMessages().get(messageId);
+      if (!tracked) return;
 
-      const data = await response.json() as any;
+      log.info('Forwarded message deleted', { messageId });
+      await this.requireForwardedMessages().remove(messageId);
 
-      if (data.success) {
-        await message.reply(`✅ **Account switched successfully!**\n\n📧 Active account: **${data.activeAccount.email}**\n\nAll future uploads will be saved to this account.`);
-      } else {
-        await message.reply(`❌ ${data.error || 'Failed to switch account. Please check the account number and try again.'}`);
+      // Forwards still waiting in the outbox can simply be dropped, and dead-lettered ones must not be replayed later
+      const outbox = this.requireOutbox();
+      const discarded = await Promise.all(tracked.outboxIds.map(id => outbox.discard(id)));
+      const dead = new Set(outbox.listDeadLetters().map(item => item.id));
+      const undelivered = tracked.outboxIds.filter((id, index) => discarded[index] || dead.has(id));
+      await outbox.purge(item => dead.has(item.id) && tracked.outboxIds.includes(item.id));
+      // Only what the receiver actually got needs retracting
+      if (undelivered.length === tracked.outboxIds.length) {
+        log.info('Dropped unsent forward', { messageId });
+        return;
       }
-    } catch (error) {
-      console.error('Error handling switch command:', error);
-      await message.reply('❌ An error occurred while switching accounts.');
+
+      const item = await outbox.enqueue({
+        id: `discord:${messageId}:retract`,
+        kind: 'retract',
+        receiver: tracked.receiver,
+        fields: {
+          action: 'retract',
+          source: 'discord',
+          discordMessageId: messageId,
+          discordChannelId: tracked.channelId,
+          discordAuthorId: tracked.authorId,
+        },
+      });
+      await outbox.deliver(item.id);
+    } catch (err) {
+      log.error('Message delete handler error', { error: err });
     }
   }
 
-  private async getUserEmail(discordId: string): Promise<string | null> {
-    try {
-      const response = await fetch(`${this.config.CALENDAR_APP_URL}/api/discord/register?discordId=${discordId}`);
-      const data = await response.json() as any;
-      
-      if (data.success && data.registered && data.user && data.user.email) {
-        return data.user.email;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error getting user email:', error);
-      return null;
+  private requireForwardedMessages(): ForwardedMessageStore {
+    if (!this.forwardedMessages) {
+      throw new Error('Forwarded message store is not initialized');
+    }
+    return this.forwardedMessages;
+  }
+
+  private requireOutbox(): Outbox {
+    if (!this.outbox) {
+      throw new Error('Outbox is not initialized');
     }
+    return this.outbox;
+  }
+
+  private toForwardResult(status: DeliveryStatus): ForwardResult {
+    if (status === 'delivered') return 'delivered';
+    if (status === 'retrying') return 'queued';
+    return 'failed';
   }
+
+  // Outbox sender: one POST to the receiver, throwing on failure so the outbox can retry
+  private async sendOutboxItem(item: OutboxItem): Promise<void> {
+    const receivers = this.requireReceivers();
+    const profile = item.receiver ? receivers.get(item.receiver) : receivers.defaultProfile;
+    if (!profile) {
+      throw new PermanentDeliveryError(`Receiver profile "${item.receiver}" is no longer configured`);
+    }
+    const { receiverUrl } = profile;
+
+    let body: Buffer | string;
+    const headers: Record<string, string> = {
+      // Kept alongside the signature for receivers that don't verify signatures yet
+      'x-receiver-token': profile.token,
+      'idempotency-key': item.id,
+    };
+    const correlationId = item.correlationId || currentCorrelationId();
+    if (correlationId) {
+      headers[CORRELATION_HEADER] = correlationId;
+    }
+
+    if (item.kind === 'events') {
+      // Events parsed locally from a calendar file are sent as JSON
+      const { events, ...fields } = item.fields;
+      body = JSON.stringify({ ...fields, events: JSON.parse(events), idempotencyKey: item.id });
+      headers['content-type'] = 'application/json';
+    } else {
+      // Build multipart using FormData compatible with node-fetch@3
+      const formData = new FormData();
+      for (const file of item.files) {
+        const buffer = await readFile(file.path);
+        formData.append('file', new Blob([buffer], { type: file.contentType }), file.name);
+      }
+      for (const [key, value] of Object.entries(item.fields)) {
+        formData.set(key, value);
+      }
+      formData.set('idempotencyKey', item.id);
+
+      // Encoded up front so the signature covers the exact bytes sent
+      const encoded = new Response(formData);
+      body = Buffer.from(await encoded.arrayBuffer());
+      headers['content-type'] = encoded.headers.get('content-type') || 'multipart/form-data';
+    }
+
+    if (this.signer) {
+      Object.assign(headers, this.signer.sign('POST', receiverUrl, body));
+    }
+
+    log.info('Sending forward to receiver', { outboxId: item.id, kind: item.kind, attempt: item.attempts, receiver: profile.name });
+    forwardsAttempted.inc({ type: item.kind });
+    const { RECEIVER_TIMEOUT_MS } = this.config;
+    let res;
+    let json: unknown;
+    try {
+      // Cap in-flight receiver requests so bursts queue up here instead of piling onto the calendar app
+      ({ res, json } = await this.withReceiverSlot(profile, async () => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), RECEIVER_TIMEOUT_MS);
+        const endTimer = receiverLatency.startTimer({ type: item.kind });
+        try {
+          const response = await fetch(receiverUrl, {
+            method: 'POST',
+            headers,
+            body,
+            signal: controller.signal,
+          });
+          // The body is read under the same timeout, so a stalled response can't hold the slot either
+          return { res: response, json: await response.json().catch(() => null) };
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw new Error(`Receiver did not respond within ${RECEIVER_TIMEOUT_MS}ms`);
+          }
+          throw error;
+        } finally {
+          clearTimeout(timeout);
+          endTimer();
+        }
+      }));
+    } catch (error) {
+      forwardsFailed.inc({ type: item.kind });
+      throw error;
+    }
+
+    log.info('Receiver responded', { outboxId: item.id, status: res.status });
+    log.debug('Receiver response body', { body: json });
+
+    if (res.ok && json) {
+      forwardsSucceeded.inc({ type: item.kind });
+      // The forward already succeeded; a failure to post confirmations must not trigger a resend
+      await this.postEventConfirmations(item, parseReceiverEvents(json))
+        .catch(error => log.error('Failed to post event confirmations', { error }));
+      return;
+    }
+
+    forwardsFailed.inc({ type: item.kind });
+    if (res.status === 401 || res.status === 403) {
+      // The cached account may have been unlinked or revoked since it was looked up
+      this.registrations?.invalidate(requesterOf(item), profile.name);
+    }
+    const reason = `Receiver responded with ${res.status} ${res.statusText}`;
+    // Other client errors (400, 413, 422, ...) will fail the same way on every retry
+    if (res.status >= 400 && res.status < 500 && !RETRYABLE_CLIENT_STATUSES.has(res.status)) {
+      throw new PermanentDeliveryError(reason);
+    }
+    throw new Error(reason);
+  }
+
+  // Show each extracted event with Confirm / Edit / Discard buttons, replying to the original message
+  private async postEventConfirmations(item: OutboxItem, events: ExtractedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const channel = await this.sendableChannel(item.fields.discordChannelId);
+    if (!channel) return;
+
+    const requesterId = requesterOf(item);
+    const tr = this.translatorFor(requesterId);
+    const account = item.fields.userEmail || tr.t('event.activeAccount');
+    for (const event of events) {
+      await channel.send({
+        content: tr.t('event.found', { userId: requesterId }),
+        embeds: [buildEventEmbed(event, account, tr)],
+        components: [buildEventButtons(event.id, requesterId, tr)],
+        reply: { messageReference: item.fields.discordMessageId, failIfNotExists: false },
+        allowedMentions: { users: [requesterId] },
+      });
+    }
+  }
+
+  private async handleEventButton(interaction: ButtonInteraction) {
+    const parsed = parseEventButtonId(interaction.customId);
+    if (!parsed) return;
+
+    const tr = this.translatorFor(interaction.user.id, interaction.locale);
+    if (interaction.user.id !== parsed.ownerId) {
+      await interaction.reply({ content: tr.t('event.notOwner'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const embed = interaction.message.embeds[0];
+    if (!embed) return;
+    const current = eventFromEmbed(parsed.eventId, embed.toJSON());
+
+    if (parsed.decision === 'edit') {
+      await interaction.showModal(buildEditModal(current, parsed.ownerId, tr));
+      return;
+    }
+
+    await interaction.deferUpdate();
+    try {
+      await this.calendarFor(this.profileFor(interaction)).resolveEvent(interaction.user.id, parsed.eventId, parsed.decision);
+      await interaction.editReply({
+        embeds: [buildEventEmbed(current, current.account || '', tr, parsed.decision === 'confirm' ? 'confirmed' : 'discarded')],
+        components: [],
+      });
+    } catch (error) {
+      log.error('Event decision error', { error });
+      await interaction.followUp({
+        content: `❌ ${describeError(tr, error, 'event.updateFailed')}`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+
+  private async handleEventModal(interaction: ModalSubmitInteraction) {
+    const parsed = parseEventModalId(interaction.customId);
+    if (!parsed || !interaction.isFromMessage()) return;
+
+    const tr = this.translatorFor(interaction.user.id, interaction.locale);
+    const optional = (id: string) => interaction.fields.getTextInputValue(id).trim() || undefined;
+    const changes: EventChanges = {
+      title: interaction.fields.getTextInputValue('title').trim(),
+      start: interaction.fields.getTextInputValue('start').trim(),
+      end: optional('end'),
+      location: optional('location'),
+    };
+
+    const invalidTime = [changes.start, changes.end].find(value => value !== undefined && isNaN(Date.parse(value)));
+    if (invalidTime !== undefined) {
+      await interaction.reply({ content: tr.t('event.invalidTime', { value: invalidTime }), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.deferUpdate();
+    try {
+      const result = await this.calendarFor(this.profileFor(interaction)).resolveEvent(interaction.user.id, parsed.eventId, 'edit', changes);
+      const previous = interaction.message.embeds[0] ? eventFromEmbed(parsed.eventId, interaction.message.embeds[0].toJSON()) : null;
+      const updated: ExtractedEvent = result.event || { id: parsed.eventId, ...changes, account: previous?.account };
+
+      await interaction.editReply({
+        embeds: [buildEventEmbed(updated, previous?.account || '', tr, 'edited')],
+        components: [],
+      });
+    } catch (error) {
+      log.error('Event edit error', { error });
+      await interaction.followUp({
+        content: `❌ ${describeError(tr, error, 'event.updateFailed')}`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+
+  // Let the author know a forward was given up on, since guild channels get no reply otherwise
+  private async notifyDeadLetter(item: OutboxItem): Promise<void> {
+    const channel = await this.sendableChannel(item.fields.discordChannelId);
+    if (!channel) return;
+
+    const requesterId = requesterOf(item);
+    const tr = this.translatorFor(requesterId);
+    await channel.send({
+      content: tr.t('deadLetter.notice', { userId: requesterId, item: tr.t(`deadLetter.${item.kind}`), count: item.attempts }),
+      reply: { messageReference: item.fields.discordMessageId, failIfNotExists: false },
+    });
+  }
+
+  private async handleMessage(message: Message) {
+    try {
+      log.info('Received message', { messageId: message.id, authorId: message.author.id, channelId: message.channelId, guildId: message.guildId });
+      messagesSeen.inc();
+      
+      if (message.author.bot) {
+        log.debug('Ignoring bot message');
+        return;
+      }
+
+      if (this.isBlocked(message.author.id)) {
+        log.info('Ignoring message from blocked user', { userId: message.author.id });
+        return;
+      }
+
+      // The client's locale is only sent with interactions, so messages use the stored preference or the default
+      const tr = this.translatorFor(message.author.id);
+
+      // Legacy prefix commands; the slash command equivalents are preferred
+      // Handle registration command
+      if (message.content.startsWith('!register')) {
+        const ctx = contextFromMessage(message, tr);
+        if (!(await this.admitCommand(ctx, 'register', 'prefix'))) return;
+        // Check if user provided any arguments (they shouldn't for OAuth flow)
+        if (message.content.trim() !== '!register') {
+          await message.reply(tr.t('register.prefixUsage'));
+          return;
+        }
+        await this.handleRegistrationCommand(ctx);
+        return;
+      }
+
+      // Handle status check command
+      if (message.content === '!status' || message.content === '!whoami') {
+        const ctx = contextFromMessage(message, tr);
+        if (!(await this.admitCommand(ctx, 'status', 'prefix'))) return;
+        await this.handleStatusCommand(ctx);
+        return;
+      }
+
+      // Handle accounts list command
+      if (message.content === '!accounts') {
+        const ctx = contextFromMessage(message, tr);
+        if (!(await this.admitCommand(ctx, 'accounts', 'prefix'))) return;
+        await this.handleAccountsCommand(ctx);
+        return;
+      }
+
+      // Handle account switch command
+      if (message.content.startsWith('!switch')) {
+        const ctx = contextFromMessage(message, tr);
+        if (!(await this.admitCommand(ctx, 'switch', 'prefix'))) return;
+        const args = message.content.trim().split(/\s+/);
+        if (args.length !== 2) {
+          await message.reply(tr.t('switch.prefixUsage'));
+          return;
+        }
+        await this.handleSwitchCommand(ctx, parseInt(args[1]));
+        return;
+      }
+
+      // Handle today's events command
+      if (message.content === '!today') {
+        const ctx = contextFromMessage(message, tr);
+        if (!(await this.admitCommand(ctx, 'today', 'prefix'))) return;
+        await this.handleTodayCommand(ctx);
+        return;
+      }
+
+      // DMs always use the defaults; guild channels use that guild's settings
+      const guildConfig = this.guildConfigFor(message.guildId);
+      
+      // In guild channels, optionally restrict to the allowed channels; always allow DMs
+      if (message.guildId && guildConfig.allowedChannels.length > 0 && !guildConfig.allowedChannels.includes(message.channelId)) {
+        log.debug('Channel not allowed, ignoring message');
+        return; // ignore channels not whitelisted
+      }
+
+      // In DMs every result is acknowledged; in guilds it depends on the configured verbosity
+      const verbosity: ReplyVerbosity = message.guildId ? guildConfig.verbosity : 'verbose';
+      const profile = this.profileFor(message);
+
+      // If message has attachments, forward the supported ones together
+      const attachments = Array.from(message.attachments.values());
+      log.debug('Message attachments', { count: attachments.length });
+      
+      if (attachments.length > 0) {
+        const { accepted, notes } = this.selectAttachments(attachments, guildConfig, profile, tr);
+
+        let summary: string | null = null;
+        if (accepted.length > 0) {
+          if (!(await this.admitForward(message, verbosity, tr))) return;
+
+          const batch = await this.forwardAttachments(message, accepted, tr);
+          if (batch.result === 'unregistered') {
+            log.info('Sending registration prompt', { userId: message.author.id });
+            await message.reply(tr.t('register.required'));
+            return;
+          }
+          notes.push(...batch.notes);
+          summary = this.summarizeAttachmentBatch(batch.result, accepted, verbosity, tr);
+        }
+
+        // One reply per message, covering the upload and anything that was left out
+        const reply = [summary, ...notes].filter(Boolean).join('\n\n');
+        if (reply && verbosity !== 'quiet') {
+          await message.reply(reply);
+        }
+        return;
+      }
+
+      // No attachments; if there's text content, forward it (but skip commands)
+      if (message.content && message.content.trim().length > 0) {
+        // Skip forwarding if it's a command that we don't recognize
+        if (message.content.startsWith('!')) {
+          log.debug('Unrecognized command, ignoring');
+          return;
+        }
+        if (!guildConfig.textForwarding) {
+          log.debug('Text forwarding is disabled for this guild');
+          return;
+        }
+        if (!acceptsContentType(profile, TEXT_CONTENT_TYPE)) {
+          log.debug('Receiver does not accept text', { receiver: profile.name });
+          return;
+        }
+        if (!(await this.admitForward(message, verbosity, tr))) return;
+        const result = await this.forwardText(message);
+        // We intentionally do not reply to delivered text to avoid noise; logging happens on the server
+        if (verbosity === 'quiet') return;
+        if (result === 'queued') {
+          await message.reply(tr.t('forward.textQueued'));
+        } else if (result === 'failed') {
+          await message.reply(tr.t('forward.textFailed'));
+        }
+        return;
+      }
+      
+      log.debug('Message has no processable content');
+    } catch (err) {
+      log.error('Message handler error', { error: err });
+    }
+  }
+
+  private async handleRegistrationCommand(ctx: CommandContext) {
+    try {
+      const discordId = ctx.userId;
+      const username = ctx.username;
+
+      log.info('Starting OAuth registration', { userId: discordId });
+
+      const authUrl = await this.calendarFor(this.profileFor(ctx)).initiateOAuth(discordId, username);
+      log.info('OAuth URL generated', { userId: discordId });
+        
+      await ctx.reply({
+        content: ctx.i18n.t('register.link', { url: authUrl }),
+        suppressEmbeds: true
+      });
+    } catch (error) {
+      log.error('Registration command error', { error });
+      await ctx.reply(ctx.i18n.t('register.failed', { reason: describeError(ctx.i18n, error, 'register.failedFallback') }));
+    }
+  }
+
+  private async handleStatusCommand(ctx: CommandContext) {
+    try {
+      const discordId = ctx.userId;
+      log.info('Status check', { userId: discordId });
+
+      const profile = this.profileFor(ctx);
+      const result = await this.calendarFor(profile).getRegistration(discordId);
+      this.registrations?.set(profile.name, discordId, result.registered && result.user ? result.user.email : null);
+
+      if (result.registered && result.user) {
+        const user = result.user;
+        await ctx.reply(ctx.i18n.t('status.active', { email: user.email, registeredAt: ctx.i18n.date(user.registeredAt) }));
+      } else {
+        await ctx.reply(ctx.i18n.t('status.notRegistered'));
+      }
+    } catch (error) {
+      log.error('Status command error', { error });
+      await ctx.reply(ctx.i18n.t('status.failed', { reason: describeError(ctx.i18n, error) }));
+    }
+  }
+
+  private async handleAccountsCommand(ctx: CommandContext): Promise<void> {
+    try {
+      const data = await this.calendarFor(this.profileFor(ctx)).listAccounts(ctx.userId);
+      const tr = ctx.i18n;
+
+      if (data.accounts.length === 0) {
+        await ctx.reply(tr.t('accounts.none'));
+        return;
+      }
+
+      const entries = data.accounts.map(account => tr.t('accounts.entry', {
+        number: account.accountNumber,
+        email: account.email,
+        active: account.isActive ? tr.t('accounts.activeMarker') : '',
+        registeredAt: tr.date(account.registeredAt),
+      }));
+
+      await ctx.reply([tr.t('accounts.header'), ...entries, tr.t('accounts.footer', { total: data.totalAccounts })].join('\n\n'));
+    } catch (error) {
+      log.error('Accounts command error', { error });
+      await ctx.reply(ctx.i18n.t('accounts.failed', { reason: describeError(ctx.i18n, error) }));
+    }
+  }
+
+  private async handleSwitchCommand(ctx: CommandContext, accountNumber: number): Promise<void> {
+    try {
+      if (isNaN(accountNumber) || accountNumber < 1) {
+        await ctx.reply(ctx.i18n.t('switch.invalidNumber'));
+        return;
+      }
+
+      const profile = this.profileFor(ctx);
+      const data = await this.calendarFor(profile).switchAccount(ctx.userId, accountNumber);
+      this.registrations?.invalidate(ctx.userId, profile.name);
+      await ctx.reply(ctx.i18n.t('switch.done', { email: data.activeAccount.email }));
+    } catch (error) {
+      log.error('Switch command error', { error });
+      await ctx.reply(`❌ ${describeError(ctx.i18n, error, 'switch.failed')}`);
+    }
+  }
+
+  /**
+   * "Add to my calendar": run the forwarding pipeline on any message, saving
+   * it to the invoking user's account. Channel restrictions and text
+   * forwarding settings don't apply, since the user asked explicitly;
+   * attachment types and sizes still do, as do the content types the
+   * channel's receiver accepts.
+   */
+  private async handleAddToCalendar(interaction: MessageContextMenuCommandInteraction) {
+    log.info('Add to calendar', { messageId: interaction.targetId, userId: interaction.user.id });
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const ctx = contextFromInteraction(interaction, this.translatorFor(interaction.user.id, interaction.locale));
+    if (!(await this.admitCommand(ctx, 'add-to-calendar', 'context-menu'))) return;
+    const tr = ctx.i18n;
+
+    const { RATE_LIMIT_FORWARD_USER, RATE_LIMIT_FORWARD_GUILD } = this.config;
+    const decision = this.takeRateLimit('forward', ctx.userId, ctx.guildId, RATE_LIMIT_FORWARD_USER, RATE_LIMIT_FORWARD_GUILD);
+    if (!decision.allowed) {
+      await ctx.reply(tr.t('rateLimit.addToCalendar', { retryAfter: formatRetryAfter(decision.retryAfterMs) }));
+      return;
+    }
+
+    const message = interaction.targetMessage;
+    const attachments = Array.from(message.attachments.values());
+    const profile = this.profileFor(message);
+
+    if (attachments.length > 0) {
+      const { accepted, notes } = this.selectAttachments(attachments, this.guildConfigFor(message.guildId), profile, tr);
+      if (accepted.length === 0) {
+        await ctx.reply([tr.t('addToCalendar.noAttachments'), ...notes].join('\n\n'));
+        return;
+      }
+
+      const batch = await this.forwardAttachments(message, accepted, tr, ctx.userId);
+      if (batch.result === 'unregistered') {
+        await ctx.reply(tr.t('register.required'));
+        return;
+      }
+      const summary = this.summarizeAttachmentBatch(batch.result, accepted, 'verbose', tr);
+      await ctx.reply([summary, ...notes, ...batch.notes].filter(Boolean).join('\n\n') || tr.t('addToCalendar.nothingAdded'));
+      return;
+    }
+
+    if (!message.content.trim()) {
+      await ctx.reply(tr.t('addToCalendar.empty'));
+      return;
+    }
+    if (!acceptsContentType(profile, TEXT_CONTENT_TYPE)) {
+      await ctx.reply(tr.t('addToCalendar.textNotAccepted'));
+      return;
+    }
+
+    const result = await this.forwardText(message, ctx.userId);
+    switch (result) {
+      case 'unregistered':
+        await ctx.reply(tr.t('register.required'));
+        break;
+      case 'delivered':
+        await ctx.reply(tr.t('addToCalendar.sent'));
+        break;
+      case 'queued':
+        await ctx.reply(tr.t('addToCalendar.queued'));
+        break;
+      default:
+        await ctx.reply(tr.t('forward.textFailed'));
+    }
+  }
+
+  private async handleUnlinkCommand(ctx: CommandContext, accountNumber: number): Promise<void> {
+    try {
+      const profile = this.profileFor(ctx);
+      const data = await this.calendarFor(profile).unlinkAccount(ctx.userId, accountNumber);
+      this.registrations?.invalidate(ctx.userId, profile.name);
+
+      const tr = ctx.i18n;
+      const next = data.activeAccount
+        ? tr.t('unlink.active', { email: data.activeAccount.email })
+        : tr.t('unlink.noneLeft');
+      await ctx.reply(tr.t('unlink.done', { email: data.removedAccount.email, next }));
+    } catch (error) {
+      log.error('Unlink command error', { error });
+      await ctx.reply(`❌ ${describeError(ctx.i18n, error, 'unlink.failed')}`);
+    }
+  }
+
+  private async handleForgetMeButton(interaction: ButtonInteraction) {
+    const parsed = parseForgetMeButtonId(interaction.customId);
+    if (!parsed) return;
+
+    // Resolved before the purge, which also drops the user's language preference
+    const tr = this.translatorFor(interaction.user.id, interaction.locale);
+    if (interaction.user.id !== parsed.ownerId) {
+      await interaction.reply({ content: tr.t('forgetMe.notOwner'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (parsed.decision === 'cancel') {
+      await interaction.update({ content: tr.t('forgetMe.cancelled'), components: [] });
+      return;
+    }
+
+    await interaction.update({ content: tr.t('forgetMe.deleting'), components: [] });
+    const discordId = interaction.user.id;
+    try {
+      // The user may have linked accounts on any backend, so every profile's calendar app is asked
+      const profiles = this.requireReceivers().list();
+      const results = await Promise.allSettled(profiles.map(profile => this.calendarFor(profile).deleteUserData(discordId)));
+
+      const counts: number[] = [];
+      const failures: { receiver: string; error: unknown }[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          if (typeof result.value.deletedAccounts === 'number') counts.push(result.value.deletedAccounts);
+        } else if (result.reason instanceof CalendarNotFoundError) {
+          // That backend never knew the user, so there is nothing to delete there
+          counts.push(0);
+        } else {
+          failures.push({ receiver: profiles[index].name, error: result.reason });
+        }
+      });
+      if (failures.length === profiles.length) {
+        throw failures[0].error;
+      }
+      for (const failure of failures) {
+        log.warn('Could not delete user data from receiver', { userId: discordId, receiver: failure.receiver, error: failure.error });
+      }
+
+      const remoteAccounts = counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : null;
+      const { othersItems, ...local } = await this.purgeLocalUserState(discordId);
+      log.info('Deleted user data', { userId: discordId, ...local, othersForwards: othersItems.length, failedReceivers: failures.length });
+
+      await interaction.editReply(formatDeletionSummary({
+        remoteAccounts,
+        ...local,
+        othersForwards: othersItems.length,
+        failedReceivers: failures.map(failure => failure.receiver),
+      }, tr));
+      await this.notifyDroppedForwards(othersItems);
+    } catch (error) {
+      // Local state is kept when every calendar app fails, so the user can simply try again
+      log.error('Data deletion error', { error });
+      await interaction.editReply(tr.t('forgetMe.failed', { reason: describeError(tr, error) }));
+    }
+  }
+
+  /**
+   * Remove everything the bot keeps about a user: cached lookups, preferences,
+   * queued forwards and tracked messages. Other users' "Add to my calendar"
+   * forwards of the user's messages carry the user's content, so they are
+   * dropped too and returned as othersItems for those users to be told.
+   */
+  private async purgeLocalUserState(discordId: string): Promise<{ queuedForwards: number; othersItems: OutboxItem[]; trackedMessages: number }> {
+    this.registrations?.invalidate(discordId);
+    this.eventPager.closeSessionsOf(discordId);
+    await this.digests?.unsubscribeEverywhere(discordId);
+    await this.userPreferences?.remove(discordId);
+    const removed = await this.requireOutbox().purge(item => item.fields.discordAuthorId === discordId || requesterOf(item) === discordId);
+    const othersItems = removed.filter(item => requesterOf(item) !== discordId);
+    const trackedMessages = await this.requireForwardedMessages().removeByAuthor(discordId);
+    return { queuedForwards: removed.length - othersItems.length, othersItems, trackedMessages };
+  }
+
+  // DM each user whose "Add to my calendar" forwards were dropped by someone else's /forget-me
+  private async notifyDroppedForwards(items: OutboxItem[]): Promise<void> {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      const requesterId = requesterOf(item);
+      counts.set(requesterId, (counts.get(requesterId) || 0) + 1);
+    }
+    for (const [requesterId, count] of counts) {
+      try {
+        if (!this.client) throw new Error('Discord bot is not running');
+        const user = await this.client.users.fetch(requesterId);
+        await user.send(this.translatorFor(requesterId).t('forgetMe.droppedForYou', { count }));
+      } catch (error) {
+        log.warn('Could not tell user about dropped forwards', { userId: requesterId, count, error });
+      }
+    }
+  }
+
+  // "Today" is the current day in the user's time zone
+  private async handleTodayCommand(ctx: CommandContext): Promise<void> {
+    const { from, to } = localDays(ctx.i18n.timeZone, new Date(), 1);
+    await this.replyWithEvents(ctx, ctx.i18n.t('events.today'), { from, to });
+  }
+
+  private async handleUpcomingCommand(ctx: CommandContext, days: number): Promise<void> {
+    const from = new Date();
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+    await this.replyWithEvents(ctx, ctx.i18n.t('events.upcoming', { count: days }), { from, to });
+  }
+
+  private async handleFindCommand(ctx: CommandContext, query: string): Promise<void> {
+    await this.replyWithEvents(ctx, ctx.i18n.t('events.find', { query }), { query });
+  }
+
+  // Fetch events for the user's active account and reply with a paginated embed
+  private async replyWithEvents(ctx: CommandContext, title: string, filters: EventQuery): Promise<void> {
+    try {
+      const events = await this.calendarFor(this.profileFor(ctx)).listEvents(ctx.userId, filters);
+      await ctx.reply(this.eventPager.open(ctx.userId, title, events, ctx.i18n));
+    } catch (error) {
+      log.error('Event query error', { error });
+      await ctx.reply(ctx.i18n.t('events.failed', { reason: describeError(ctx.i18n, error) }));
+    }
+  }
+
+  private async handleEventPageButton(interaction: ButtonInteraction) {
+    const parsed = parseEventPageId(interaction.customId);
+    if (!parsed) return;
+
+    const tr = this.translatorFor(interaction.user.id, interaction.locale);
+    const ownerId = this.eventPager.ownerOf(parsed.sessionId);
+    if (ownerId && ownerId !== interaction.user.id) {
+      await interaction.reply({ content: tr.t('events.notOwner'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const page = this.eventPager.render(parsed.sessionId, parsed.page);
+    if (!page) {
+      await interaction.update({ components: [] });
+      await interaction.followUp({ content: tr.t('events.expired'), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const { suppressEmbeds, ...options } = page;
+    await interaction.update(options);
+  }
+
+  private guildConfigFor(guildId: string | null): GuildConfig {
+    const store = this.requireGuildConfigs();
+    return guildId ? store.get(guildId) : store.getDefaults();
+  }
+
+  private async handleConfigCommand(ctx: CommandContext, action: ConfigAction): Promise<void> {
+    const tr = ctx.i18n;
+    if (!ctx.guildId) {
+      await ctx.reply(tr.t('config.guildOnly'));
+      return;
+    }
+    if (!ctx.canManageGuild) {
+      await ctx.reply(tr.t('config.needsManage'));
+      return;
+    }
+
+    const store = this.requireGuildConfigs();
+    const guildId = ctx.guildId;
+    let config = store.get(guildId);
+
+    try {
+      switch (action.kind) {
+        case 'channel-add':
+          if (!config.allowedChannels.includes(action.channelId)) {
+            config = await store.set(guildId, 'allowedChannels', [...config.allowedChannels, action.channelId]);
+          }
+          break;
+        case 'channel-remove':
+          config = await store.set(guildId, 'allowedChannels', config.allowedChannels.filter(id => id !== action.channelId));
+          break;
+        case 'text':
+          config = await store.set(guildId, 'textForwarding', action.enabled);
+          break;
+        case 'attachments': {
+          const types = action.types.split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+          config = action.types.trim().toLowerCase() === 'default' || types.length === 0
+            ? await store.reset(guildId, 'attachmentTypes')
+            : await store.set(guildId, 'attachmentTypes', types);
+          break;
+        }
+        case 'verbosity':
+          config = await store.set(guildId, 'verbosity', action.level);
+          break;
+      }
+    } catch (error) {
+      log.error('Failed to save guild config', { error });
+      await ctx.reply(tr.t('config.saveFailed'));
+      return;
+    }
+
+    const channels = config.allowedChannels.length > 0
+      ? config.allowedChannels.map(id => `<#${id}>`).join(', ')
+      : tr.t('config.allChannels');
+    const source = (key: keyof GuildConfig) => store.isDefault(guildId, key) ? tr.t('config.default') : '';
+
+    await ctx.reply(tr.t('config.summary', {
+      title: tr.t(action.kind === 'show' ? 'config.showTitle' : 'config.updatedTitle'),
+      channels,
+      channelsSource: source('allowedChannels'),
+      text: tr.t(config.textForwarding ? 'config.on' : 'config.off'),
+      textSource: source('textForwarding'),
+      types: config.attachmentTypes.map(type => `\`${type}\``).join(', '),
+      typesSource: source('attachmentTypes'),
+      verbosity: config.verbosity,
+      verbositySource: source('verbosity'),
+    }));
+  }
+
+  private requireGuildConfigs(): GuildConfigStore {
+    if (!this.guildConfigs) {
+      throw new Error('Guild config store is not initialized');
+    }
+    return this.guildConfigs;
+  }
+
+  private digestActionFromInteraction(interaction: ChatInputCommandInteraction): DigestAction {
+    const subcommand = interaction.options.getSubcommand();
+    if (subcommand === 'set') {
+      return {
+        kind: 'set',
+        channelId: interaction.options.getChannel('channel', true).id,
+        time: interaction.options.getString('time', true).trim(),
+        timezone: interaction.options.getString('tz', true).trim(),
+        scope: interaction.options.getString('scope', true) as DigestScope,
+      };
+    }
+    if (subcommand === 'off' || subcommand === 'subscribe' || subcommand === 'unsubscribe') {
+      return { kind: subcommand };
+    }
+    return { kind: 'show' };
+  }
+
+  private async handleDigestCommand(ctx: CommandContext, action: DigestAction): Promise<void> {
+    const tr = ctx.i18n;
+    if (!ctx.guildId) {
+      await ctx.reply(tr.t('digest.guildOnly'));
+      return;
+    }
+    if ((action.kind === 'set' || action.kind === 'off') && !ctx.canManageGuild) {
+      await ctx.reply(tr.t('digest.needsManage'));
+      return;
+    }
+
+    const digests = this.requireDigests();
+    const guildId = ctx.guildId;
+
+    try {
+      switch (action.kind) {
+        case 'set': {
+          if (!isValidTime(action.time)) {
+            await ctx.reply(tr.t('digest.invalidTime'));
+            return;
+          }
+          if (!isValidTimeZone(action.timezone)) {
+            await ctx.reply(tr.t('digest.invalidTimeZone', { timezone: action.timezone }));
+            return;
+          }
+          const schedule = await digests.set({ guildId, channelId: action.channelId, time: action.time, timezone: action.timezone, scope: action.scope });
+          await ctx.reply(tr.t('digest.scheduled', { details: this.describeDigest(schedule, tr) }));
+          return;
+        }
+        case 'off': {
+          const removed = await digests.remove(guildId);
+          await ctx.reply(tr.t(removed ? 'digest.off' : 'digest.none'));
+          return;
+        }
+        case 'subscribe':
+        case 'unsubscribe': {
+          const subscribed = action.kind === 'subscribe';
+          if (!(await digests.setSubscribed(guildId, ctx.userId, subscribed))) {
+            await ctx.reply(tr.t('digest.noneSubscribe'));
+            return;
+          }
+          await ctx.reply(tr.t(subscribed ? 'digest.subscribed' : 'digest.unsubscribed'));
+          return;
+        }
+        default: {
+          const schedule = digests.get(guildId);
+          await ctx.reply(schedule ? tr.t('digest.show', { details: this.describeDigest(schedule, tr) }) : tr.t('digest.none'));
+        }
+      }
+    } catch (error) {
+      log.error('Failed to save digest', { error });
+      await ctx.reply(tr.t('digest.saveFailed'));
+    }
+  }
+
+  private describeDigest(schedule: DigestSchedule, tr: Translator): string {
+    return tr.t('digest.details', {
+      channelId: schedule.channelId,
+      when: tr.t(schedule.scope === 'weekly' ? 'digest.weekly' : 'digest.daily', { time: schedule.time }),
+      timezone: schedule.timezone,
+      subscribers: schedule.subscribers.length,
+    });
+  }
+
+  // Fetch the events for a digest and post them; nothing is posted when there are none
+  private async postDigest(schedule: DigestSchedule, window: DigestWindow): Promise<DigestOutcome> {
+    return withCorrelationId(newCorrelationId(), async () => {
+      if (this.client && !this.client.isReady()) {
+        log.info('Gateway is not ready, retrying digest later', { guildId: schedule.guildId });
+        return 'retry';
+      }
+
+      const channel = await this.sendableChannel(schedule.channelId);
+      if (!channel) {
+        log.warn('Digest channel is not available', { guildId: schedule.guildId, channelId: schedule.channelId });
+        return 'retry';
+      }
+
+      const calendar = this.calendarFor(this.profileFor(schedule));
+      const range = { from: window.from, to: window.to };
+      const results = await Promise.allSettled([
+        calendar.listChannelEvents(schedule.channelId, range),
+        ...schedule.subscribers.map(userId => calendar.listEvents(userId, range)),
+      ]);
+
+      // One user's failure (e.g. a revoked account) should not sink the whole digest
+      const events = new Map<string, CalendarEvent>();
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          log.warn('Could not fetch events for digest', { guildId: schedule.guildId, error: result.reason });
+          continue;
+        }
+        for (const event of result.value) events.set(event.id, event);
+      }
+      // With nothing fetched, "no events" can't be told apart from an outage
+      if (results.every(result => result.status === 'rejected')) {
+        log.warn('Could not fetch any events for digest, retrying later', { guildId: schedule.guildId });
+        return 'retry';
+      }
+
+      // Digests are read by the whole channel, so they use the bot's default language
+      const embed = buildDigestEmbed(schedule, window, [...events.values()], this.defaultTranslator(schedule.timezone));
+      if (!embed) {
+        log.info('No events for digest, skipping', { guildId: schedule.guildId });
+        return 'empty';
+      }
+
+      await channel.send({ embeds: [embed] });
+      log.info('Posted digest', { guildId: schedule.guildId, events: events.size });
+      return 'posted';
+    });
+  }
+
+  private requireDigests(): DigestScheduler {
+    if (!this.digests) {
+      throw new Error('Digest scheduler is not initialized');
+    }
+    return this.digests;
+  }
+
+  private async handleOutboxCommand(ctx: CommandContext, action: string, id: string | null): Promise<void> {
+    const tr = ctx.i18n;
+    if (!this.config.ADMIN_USER_IDS.includes(ctx.userId)) {
+      await ctx.reply(tr.t('common.adminOnly'));
+      return;
+    }
+
+    const outbox = this.requireOutbox();
+
+    if (action === 'list') {
+      const pending = outbox.listPending();
+      const dead = outbox.listDeadLetters();
+
+      let summary = tr.t('outbox.summary', { pending: pending.length, dead: dead.length });
+      for (const item of dead.slice(0, 15)) {
+        summary += '\n' + tr.t('outbox.item', { id: item.id, kind: item.kind, attempts: item.attempts, error: item.lastError || tr.t('common.unknown') });
+      }
+      if (dead.length > 15) {
+        summary += '\n\n' + tr.t('common.more', { count: dead.length - 15 });
+      }
+      await ctx.reply(summary);
+      return;
+    }
+
+    if (action === 'replay') {
+      const ids = !id || id === 'all' ? outbox.listDeadLetters().map(item => item.id) : [id];
+      if (ids.length === 0) {
+        await ctx.reply(tr.t('outbox.empty'));
+        return;
+      }
+
+      const results: Record<DeliveryStatus, number> = { delivered: 0, retrying: 0, dead: 0 };
+      for (const itemId of ids) {
+        const status = await outbox.replay(itemId);
+        if (!status) {
+          await ctx.reply(tr.t('outbox.notFound', { id: itemId }));
+          return;
+        }
+        results[status] += 1;
+      }
+
+      await ctx.reply(tr.t('outbox.replayed', { count: ids.length, ...results }));
+      return;
+    }
+
+    await ctx.reply(tr.t('outbox.unknownAction'));
+  }
+
+  private async handleBlocklistCommand(ctx: CommandContext, action: string, userId: string | null, reason: string | null): Promise<void> {
+    const tr = ctx.i18n;
+    if (!this.config.ADMIN_USER_IDS.includes(ctx.userId)) {
+      await ctx.reply(tr.t('common.adminOnly'));
+      return;
+    }
+
+    const blocklist = this.requireBlocklist();
+
+    if (action === 'list') {
+      const blocked = blocklist.list();
+      if (blocked.length === 0) {
+        await ctx.reply(tr.t('blocklist.empty'));
+        return;
+      }
+
+      let summary = tr.t('blocklist.header', { count: blocked.length }) + '\n';
+      for (const entry of blocked.slice(0, 25)) {
+        summary += '\n' + tr.t('blocklist.entry', { id: entry.discordId, date: tr.date(entry.blockedAt), blockedBy: entry.blockedBy });
+        if (entry.reason) summary += '\n' + tr.t('blocklist.reason', { reason: entry.reason });
+      }
+      if (blocked.length > 25) {
+        summary += '\n\n' + tr.t('common.more', { count: blocked.length - 25 });
+      }
+      await ctx.reply({ content: summary, allowedMentions: { parse: [] } });
+      return;
+    }
+
+    const discordId = userId?.trim() || '';
+    if (!/^\d{17,20}$/.test(discordId)) {
+      await ctx.reply(tr.t('blocklist.invalidId'));
+      return;
+    }
+
+    if (action === 'add') {
+      if (this.config.ADMIN_USER_IDS.includes(discordId)) {
+        await ctx.reply(tr.t('blocklist.adminProtected'));
+        return;
+      }
+      await blocklist.add({
+        discordId,
+        reason: reason || undefined,
+        blockedBy: ctx.userId,
+        blockedAt: new Date().toISOString(),
+      });
+      log.info('User blocked', { userId: discordId, blockedBy: ctx.userId });
+      await ctx.reply(tr.t('blocklist.added', { id: discordId }));
+      return;
+    }
+
+    if (action === 'remove') {
+      const removed = await blocklist.remove(discordId);
+      await ctx.reply(tr.t(removed ? 'blocklist.removed' : 'blocklist.notBlocked', { id: discordId }));
+      return;
+    }
+
+    await ctx.reply(tr.t('blocklist.unknownAction'));
+  }
+
+  /**
+   * Translator for a user: the language they chose with /language, then the
+   * locale of their Discord client (only sent with interactions), then
+   * DEFAULT_LOCALE. Dates use their chosen time zone or DEFAULT_TIMEZONE.
+   */
+  private translatorFor(discordId: string, discordLocale?: string | null): Translator {
+    const preferences = this.userPreferences?.get(discordId) || {};
+    const locale = preferences.locale || resolveLocale(discordLocale) || resolveLocale(this.config.DEFAULT_LOCALE) || 'en';
+    return createTranslator(locale, preferences.timezone || this.config.DEFAULT_TIMEZONE, discordLocale);
+  }
+
+  private defaultTranslator(timeZone = this.config.DEFAULT_TIMEZONE): Translator {
+    return createTranslator(resolveLocale(this.config.DEFAULT_LOCALE) || 'en', timeZone);
+  }
+
+  // /language: with no options, show the current settings; "auto" clears a preference
+  private async handleLanguageCommand(ctx: CommandContext, discordLocale: string, language: string | null, timezone: string | null): Promise<void> {
+    if (timezone && timezone !== 'auto' && !isValidTimeZone(timezone)) {
+      await ctx.reply(ctx.i18n.t('language.invalidTimeZone', { timezone }));
+      return;
+    }
+
+    const store = this.requireUserPreferences();
+    if (language === null && timezone === null) {
+      await ctx.reply(this.describePreferences(store.get(ctx.userId), ctx.i18n, discordLocale));
+      return;
+    }
+
+    const changes: UserPreferences = {};
+    if (language !== null) changes.locale = isLocale(language) ? language : undefined;
+    if (timezone !== null) changes.timezone = timezone === 'auto' ? undefined : timezone;
+
+    let preferences: UserPreferences;
+    try {
+      preferences = await store.update(ctx.userId, changes);
+    } catch (error) {
+      log.error('Failed to save user preferences', { error });
+      await ctx.reply(ctx.i18n.t('language.saveFailed'));
+      return;
+    }
+
+    // Confirm in the newly chosen language
+    const tr = this.translatorFor(ctx.userId, discordLocale);
+    await ctx.reply(tr.t('language.updated', { details: this.describePreferences(preferences, tr, discordLocale) }));
+  }
+
+  private describePreferences(preferences: UserPreferences, tr: Translator, discordLocale: string): string {
+    const source = preferences.locale ? '' : tr.t(resolveLocale(discordLocale) ? 'language.fromDiscord' : 'language.default');
+    return tr.t('language.show', {
+      language: localeNames[tr.locale],
+      source,
+      timezone: tr.timeZone,
+      timezoneSource: preferences.timezone ? '' : tr.t('language.default'),
+    });
+  }
+
+  private requireUserPreferences(): UserPreferencesStore {
+    if (!this.userPreferences) {
+      throw new Error('User preferences store is not initialized');
+    }
+    return this.userPreferences;
+  }
+
+  // /receiver: the profile a channel forwards to and why; the calendar app is shown by origin only, never with its token
+  private async handleReceiverCommand(ctx: CommandContext, channel: { channelId: string; parentChannelId: string | null } | null): Promise<void> {
+    const tr = ctx.i18n;
+    const { channelId: target, parentChannelId } = channel ?? ctx;
+    const { profile, match } = this.requireReceivers().resolve(ctx.guildId, target, parentChannelId);
+
+    await ctx.reply(tr.t('receiver.show', {
+      place: ctx.guildId ? `<#${target}>` : tr.t('receiver.dms'),
+      profile: profile.name,
+      match: tr.t(`receiver.match.${match}`),
+      url: new URL(profile.calendarAppUrl).origin,
+      types: profile.contentTypes ? profile.contentTypes.map(type => `\`${type}\``).join(', ') : tr.t('receiver.allTypes'),
+    }));
+  }
+
+  private isBlocked(discordId: string): boolean {
+    return !!this.blocklist?.has(discordId);
+  }
+
+  /**
+   * Take a token from the user's bucket and, in guilds, the guild's bucket.
+   * Bot admins are not limited.
+   */
+  private takeRateLimit(
+    action: string,
+    userId: string,
+    guildId: string | null,
+    userRule: RateLimitRule | null,
+    guildRule: RateLimitRule | null,
+  ): RateLimitDecision {
+    if (this.config.ADMIN_USER_IDS.includes(userId)) return { allowed: true };
+
+    const checks = [];
+    if (userRule) checks.push({ scope: 'user' as const, key: `user:${userId}:${action}`, rule: userRule });
+    if (guildId && guildRule) checks.push({ scope: 'guild' as const, key: `guild:${guildId}:${action}`, rule: guildRule });
+
+    const decision = this.rateLimiter.take(checks);
+    if (!decision.allowed) {
+      log.info('Rate limited', { action, userId, scope: decision.scope });
+      rateLimited.inc({ action, scope: decision.scope });
+    }
+    return decision;
+  }
+
+  /**
+   * Record a command invocation and check it against the rate limits.
+   * Replies with a cooldown notice and returns false when over a limit.
+   */
+  private async admitCommand(ctx: CommandContext, command: string, source: CommandSource): Promise<boolean> {
+    recordCommand(command, source);
+
+    const { RATE_LIMIT_COMMANDS, RATE_LIMIT_COMMAND_USER, RATE_LIMIT_COMMAND_GUILD } = this.config;
+    const userRule = command in RATE_LIMIT_COMMANDS ? RATE_LIMIT_COMMANDS[command] : RATE_LIMIT_COMMAND_USER;
+    const decision = this.takeRateLimit(`command:${command}`, ctx.userId, ctx.guildId, userRule, RATE_LIMIT_COMMAND_GUILD);
+    if (decision.allowed) return true;
+
+    // Deferred slash commands must always get a reply; prefix commands only get the first notice
+    if (source === 'slash' || decision.notify) {
+      const key = decision.scope === 'guild' ? 'rateLimit.command.guild' : 'rateLimit.command.user';
+      await ctx.reply(ctx.i18n.t(key, { command, retryAfter: formatRetryAfter(decision.retryAfterMs) }));
+    }
+    return false;
+  }
+
+  // Check a forward against the rate limits, telling the user (once) when it is refused
+  private async admitForward(message: Message, verbosity: ReplyVerbosity, tr: Translator): Promise<boolean> {
+    const { RATE_LIMIT_FORWARD_USER, RATE_LIMIT_FORWARD_GUILD } = this.config;
+    const decision = this.takeRateLimit('forward', message.author.id, message.guildId, RATE_LIMIT_FORWARD_USER, RATE_LIMIT_FORWARD_GUILD);
+    if (decision.allowed) return true;
+
+    if (decision.notify && verbosity !== 'quiet') {
+      const key = decision.scope === 'guild' ? 'rateLimit.forward.guild' : 'rateLimit.forward.user';
+      await message.reply(tr.t(key, { retryAfter: formatRetryAfter(decision.retryAfterMs) }));
+    }
+    return false;
+  }
+
+  private requireBlocklist(): BlocklistStore {
+    if (!this.blocklist) {
+      throw new Error('Blocklist is not initialized');
+    }
+    return this.blocklist;
+  }
+
+  // Run a receiver request within the profile's cap and the global cap; the profile's slot is taken first
+  private withReceiverSlot<T>(profile: ReceiverProfile, task: () => Promise<T>): Promise<T> {
+    const globalSlots = this.receiverSlots;
+    const slots = this.profileSlots.get(profile.name);
+    if (!globalSlots || !slots) {
+      throw new Error(`Receiver concurrency limiter for "${profile.name}" is not initialized`);
+    }
+    return slots.run(() => globalSlots.run(task));
+  }
+
+  // Resolves the active account's email on a profile's calendar app; null means the user is not registered there.
+  // Calendar app failures propagate so callers don't mistake an outage for "not registered".
+  private async getUserEmail(discordId: string, profile: ReceiverProfile): Promise<string | null> {
+    const cached = this.registrations?.get(profile.name, discordId);
+    if (cached !== undefined) return cached;
+
+    const registration = await this.calendarFor(profile).getRegistration(discordId);
+    const email = registration.registered && registration.user ? registration.user.email : null;
+    this.registrations?.set(profile.name, discordId, email);
+    return email;
+  }
+
+  // Receiver profile for whatever happens in a channel: its route, a thread's parent route, its guild's route, the DM route or the default
+  private profileFor({ guildId, channelId, parentChannelId, channel }: RouteTarget): ReceiverProfile {
+    // Digests only know the channel ID, so their threads are looked up in the cache
+    const parent = parentChannelId ?? threadParentId(channel ?? (channelId ? this.client?.channels.cache.get(channelId) : null));
+    return this.requireReceivers().resolve(guildId, channelId, parent).profile;
+  }
+
+  private calendarFor(profile: ReceiverProfile): CalendarClient {
+    const calendar = this.calendars.get(profile.name);
+    if (!calendar) {
+      throw new Error(`Calendar client for receiver "${profile.name}" is not initialized`);
+    }
+    return calendar;
+  }
+
+  private requireReceivers(): ReceiverRouter {
+    if (!this.receivers) {
+      throw new Error('Receiver routes are not initialized');
+    }
+    return this.receivers;
+  }
+
 }
 
 // Export singleton instance
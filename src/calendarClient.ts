@@ -0,0 +1,386 @@
+import fetch from 'node-fetch';
+import { z } from 'zod';
+import { CORRELATION_HEADER, currentCorrelationId, logger } from './logger.js';
+import { RequestSigner } from './signing.js';
+
+// Endpoint paths on the calendar app, relative to its base URL
+export interface CalendarApiPaths {
+  oauthInitiate: string;
+  registration: string;
+  accounts: string;
+  eventConfirmation: string;
+  events: string;
+  userData: string;
+}
+
+export const defaultCalendarApiPaths: CalendarApiPaths = {
+  oauthInitiate: '/api/auth/oauth/initiate',
+  registration: '/api/discord/register',
+  accounts: '/api/discord/accounts',
+  eventConfirmation: '/api/discord/events/confirm',
+  events: '/api/discord/events',
+  userData: '/api/discord/users',
+};
+
+export interface CalendarClientOptions {
+  baseUrl: string;
+  paths?: Partial<CalendarApiPaths>;
+  timeoutMs: number;
+  // Signs every request so the calendar app can authenticate the bot
+  signer?: RequestSigner | null;
+}
+
+// Response schemas
+
+const registeredUserSchema = z.object({
+  discordId: z.string(),
+  email: z.string(),
+  username: z.string().nullish(),
+  registeredAt: z.string().nullish(),
+});
+
+const oauthInitiateSchema = z.object({
+  success: z.literal(true),
+  authUrl: z.string().url(),
+});
+
+const registrationSchema = z.object({
+  success: z.literal(true),
+  registered: z.boolean(),
+  user: registeredUserSchema.nullish(),
+});
+
+const accountSchema = z.object({
+  accountNumber: z.number().int(),
+  email: z.string(),
+  isActive: z.boolean(),
+  registeredAt: z.string().nullish(),
+});
+
+const accountsSchema = z.object({
+  success: z.literal(true),
+  accounts: z.array(accountSchema),
+  totalAccounts: z.number().int(),
+});
+
+const switchAccountSchema = z.object({
+  success: z.literal(true),
+  activeAccount: z.object({
+    email: z.string(),
+  }).passthrough(),
+});
+
+const unlinkAccountSchema = z.object({
+  success: z.literal(true),
+  removedAccount: z.object({
+    email: z.string(),
+  }).passthrough(),
+  // The account that is active after the removal, if any are left
+  activeAccount: z.object({
+    email: z.string(),
+  }).passthrough().nullish(),
+});
+
+const deleteUserDataSchema = z.object({
+  success: z.literal(true),
+  deletedAccounts: z.number().int().nullish(),
+});
+
+// Event the receiver extracted from a forwarded image or text
+const extractedEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  start: z.string(),
+  end: z.string().nullish(),
+  location: z.string().nullish(),
+  account: z.string().nullish(),
+});
+
+// Receiver responses only optionally include extracted events
+const receiverResponseSchema = z.object({
+  events: z.array(extractedEventSchema).optional(),
+}).passthrough();
+
+const eventConfirmationSchema = z.object({
+  success: z.literal(true),
+  event: extractedEventSchema.nullish(),
+});
+
+// Event on the user's calendar
+const calendarEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  start: z.string(),
+  end: z.string().nullish(),
+  location: z.string().nullish(),
+  url: z.string().nullish(),
+});
+
+const eventListSchema = z.object({
+  success: z.literal(true),
+  events: z.array(calendarEventSchema),
+});
+
+// Error payload the calendar app sends alongside `success: false`
+const errorBodySchema = z.object({
+  error: z.string().optional(),
+  message: z.string().optional(),
+}).passthrough();
+
+export type RegisteredUser = z.infer<typeof registeredUserSchema>;
+export type Registration = z.infer<typeof registrationSchema>;
+export type CalendarAccount = z.infer<typeof accountSchema>;
+export type AccountList = z.infer<typeof accountsSchema>;
+export type SwitchAccountResult = z.infer<typeof switchAccountSchema>;
+export type UnlinkAccountResult = z.infer<typeof unlinkAccountSchema>;
+export type DeleteUserDataResult = z.infer<typeof deleteUserDataSchema>;
+export type ExtractedEvent = z.infer<typeof extractedEventSchema>;
+export type EventConfirmationResult = z.infer<typeof eventConfirmationSchema>;
+
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+
+// Filters for listing events; the calendar app searches the user's active account
+export interface EventQuery {
+  from?: Date;
+  to?: Date;
+  query?: string;
+}
+
+export type EventDecision = 'confirm' | 'edit' | 'discard';
+
+// Fields a user can correct before confirming an event
+export interface EventChanges {
+  title: string;
+  start: string;
+  end?: string;
+  location?: string;
+}
+
+/**
+ * Pull the extracted events out of a receiver response. Responses without an
+ * `events` array, or with a malformed one, yield an empty list.
+ */
+export function parseReceiverEvents(json: unknown): ExtractedEvent[] {
+  const parsed = receiverResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    logger.warn('Ignoring malformed events in receiver response', { component: 'calendar-api', error: parsed.error.message });
+    return [];
+  }
+  return parsed.data.events || [];
+}
+
+// Errors
+
+export class CalendarApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'CalendarApiError';
+  }
+}
+
+// 401/403: the bot is not allowed to make the call
+export class CalendarAuthError extends CalendarApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'CalendarAuthError';
+  }
+}
+
+// 404: the user, account or resource does not exist
+export class CalendarNotFoundError extends CalendarApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'CalendarNotFoundError';
+  }
+}
+
+// The calendar app rejected the request (400/422 or `success: false`)
+export class CalendarValidationError extends CalendarApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'CalendarValidationError';
+  }
+}
+
+// 5xx, network failures, timeouts and responses that do not match the expected schema
+export class CalendarUpstreamError extends CalendarApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'CalendarUpstreamError';
+  }
+}
+
+/**
+ * Turn any error from the client into a short message that is safe to show
+ * to a Discord user. Validation and not-found messages come from the
+ * calendar app as-is; the rest can be passed in translated.
+ */
+export function describeCalendarError(
+  error: unknown,
+  fallback: string,
+  messages: { unauthorized: string; unavailable: string } = {
+    unauthorized: 'The bot is not authorized to talk to the calendar app. Please contact an admin.',
+    unavailable: 'The calendar app is unavailable or sent an unexpected response. Please try again later.',
+  },
+): string {
+  if (error instanceof CalendarValidationError || error instanceof CalendarNotFoundError) {
+    return error.message;
+  }
+  if (error instanceof CalendarAuthError) {
+    return messages.unauthorized;
+  }
+  if (error instanceof CalendarUpstreamError) {
+    return messages.unavailable;
+  }
+  return fallback;
+}
+
+/**
+ * Typed client for the calendar app's Discord-facing API. Every response is
+ * validated against a schema, and failures surface as one of the
+ * CalendarApiError subclasses.
+ */
+export class CalendarClient {
+  private readonly baseUrl: string;
+  private readonly paths: CalendarApiPaths;
+
+  constructor(private readonly options: CalendarClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.paths = { ...defaultCalendarApiPaths, ...options.paths };
+  }
+
+  async initiateOAuth(discordId: string, discordUsername: string): Promise<string> {
+    const result = await this.request(oauthInitiateSchema, 'POST', this.paths.oauthInitiate, {
+      body: { discordId, discordUsername },
+    });
+    return result.authUrl;
+  }
+
+  async getRegistration(discordId: string): Promise<Registration> {
+    return this.request(registrationSchema, 'GET', this.paths.registration, {
+      query: { discordId },
+    });
+  }
+
+  async listAccounts(discordId: string): Promise<AccountList> {
+    return this.request(accountsSchema, 'GET', this.paths.accounts, {
+      query: { discordId },
+    });
+  }
+
+  async switchAccount(discordId: string, accountNumber: number): Promise<SwitchAccountResult> {
+    return this.request(switchAccountSchema, 'POST', this.paths.accounts, {
+      body: { discordId, accountNumber },
+    });
+  }
+
+  async unlinkAccount(discordId: string, accountNumber: number): Promise<UnlinkAccountResult> {
+    return this.request(unlinkAccountSchema, 'DELETE', this.paths.accounts, {
+      query: { discordId, accountNumber: String(accountNumber) },
+    });
+  }
+
+  // Remove every linked account and everything else the calendar app stores for this Discord user
+  async deleteUserData(discordId: string): Promise<DeleteUserDataResult> {
+    return this.request(deleteUserDataSchema, 'DELETE', this.paths.userData, {
+      query: { discordId },
+    });
+  }
+
+  // Report the user's decision about an extracted event back to the calendar app
+  async resolveEvent(discordId: string, eventId: string, decision: EventDecision, changes?: EventChanges): Promise<EventConfirmationResult> {
+    return this.request(eventConfirmationSchema, 'POST', this.paths.eventConfirmation, {
+      body: { discordId, eventId, decision, changes },
+    });
+  }
+
+  async listEvents(discordId: string, { from, to, query }: EventQuery = {}): Promise<CalendarEvent[]> {
+    const params: Record<string, string> = { discordId };
+    if (from) params.from = from.toISOString();
+    if (to) params.to = to.toISOString();
+    if (query) params.query = query;
+
+    const result = await this.request(eventListSchema, 'GET', this.paths.events, { query: params });
+    return result.events;
+  }
+
+  // Events extracted from messages forwarded from a channel, across every user who forwarded them
+  async listChannelEvents(channelId: string, { from, to }: Pick<EventQuery, 'from' | 'to'> = {}): Promise<CalendarEvent[]> {
+    const params: Record<string, string> = { discordChannelId: channelId };
+    if (from) params.from = from.toISOString();
+    if (to) params.to = to.toISOString();
+
+    const result = await this.request(eventListSchema, 'GET', this.paths.events, { query: params });
+    return result.events;
+  }
+
+  private async request<T extends z.ZodTypeAny>(
+    schema: T,
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    { query, body }: { query?: Record<string, string>; body?: unknown } = {}
+  ): Promise<z.infer<T>> {
+    const url = new URL(this.baseUrl + path);
+    for (const [key, value] of Object.entries(query || {})) {
+      url.searchParams.set(key, value);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const headers: Record<string, string> = {};
+    if (payload !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.options.signer) {
+      Object.assign(headers, this.options.signer.sign(method, url.toString(), payload));
+    }
+    const correlationId = currentCorrelationId();
+    if (correlationId) {
+      headers[CORRELATION_HEADER] = correlationId;
+    }
+
+    let status: number;
+    let json: unknown;
+    try {
+      const response = await fetch(url.toString(), {
+        method,
+        headers,
+        body: payload,
+        signal: controller.signal,
+      });
+      status = response.status;
+      json = await response.json().catch(() => undefined);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new CalendarUpstreamError(`${method} ${path} timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw new CalendarUpstreamError(`${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const errorBody = errorBodySchema.safeParse(json);
+    const serverMessage = errorBody.success ? errorBody.data.error || errorBody.data.message : undefined;
+
+    if (status === 401 || status === 403) {
+      throw new CalendarAuthError(serverMessage || `${method} ${path} was not authorized`, status);
+    }
+    if (status === 404) {
+      throw new CalendarNotFoundError(serverMessage || 'Not found.', status);
+    }
+    if (status >= 500 || status === 408 || status === 429) {
+      throw new CalendarUpstreamError(`${method} ${path} responded with ${status}`, status);
+    }
+    if (status >= 400 || (errorBody.success && errorBody.data.success === false)) {
+      throw new CalendarValidationError(serverMessage || 'The calendar app rejected the request.', status);
+    }
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) {
+      throw new CalendarUpstreamError(`${method} ${path} returned an unexpected response: ${parsed.error.message}`, status);
+    }
+    return parsed.data;
+  }
+}
@@ -0,0 +1,405 @@
+import {
+  ApplicationCommandType,
+  BaseMessageOptions,
+  Channel,
+  ChannelType,
+  CommandInteraction,
+  ContextMenuCommandBuilder,
+  InteractionContextType,
+  Message,
+  MessageFlags,
+  PermissionFlagsBits,
+  REST,
+  RESTPostAPIApplicationCommandsJSONBody,
+  Routes,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { Translator, localeNames } from './i18n.js';
+import { logger } from './logger.js';
+
+// Reply payload shared by prefix commands and slash commands
+export type CommandReplyOptions = BaseMessageOptions & {
+  suppressEmbeds?: boolean;
+};
+
+// Transport-agnostic view of whoever invoked a command, so the same handler
+// logic serves both `!command` messages and application commands
+export interface CommandContext {
+  userId: string;
+  username: string;
+  guildId: string | null;
+  channelId: string;
+  // Parent channel when the command was used in a thread
+  parentChannelId: string | null;
+  // Whether the invoker has Manage Guild in the guild the command was used in
+  canManageGuild: boolean;
+  // Replies in the invoker's language and time zone
+  i18n: Translator;
+  reply(options: string | CommandReplyOptions): Promise<void>;
+}
+
+// Message context-menu command that forwards the target message to the invoker's calendar
+export const ADD_TO_CALENDAR_COMMAND = 'Add to my calendar';
+
+// Application command definitions synced to Discord at startup
+export const commandDefinitions: RESTPostAPIApplicationCommandsJSONBody[] = [
+  new SlashCommandBuilder()
+    .setName('register')
+    .setDescription('Link a Google account to your Discord account')
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('status')
+    .setDescription('Show your registration status and active account')
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('accounts')
+    .setDescription('List your registered Google accounts')
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('switch')
+    .setDescription('Switch the account your uploads are saved to')
+    .addIntegerOption(option =>
+      option
+        .setName('account')
+        .setDescription('Account to make active')
+        .setMinValue(1)
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('unlink')
+    .setDescription('Remove one of your linked Google accounts')
+    .addIntegerOption(option =>
+      option
+        .setName('account')
+        .setDescription('Account to remove')
+        .setMinValue(1)
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('forget-me')
+    .setDescription('Unlink all your accounts and delete your data from the calendar app and this bot')
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('language')
+    .setDescription('Choose the language and time zone the bot replies in')
+    .addStringOption(option =>
+      option
+        .setName('language')
+        .setDescription('Reply language; "auto" follows your Discord settings')
+        .addChoices(
+          { name: 'auto', value: 'auto' },
+          ...Object.entries(localeNames).map(([value, name]) => ({ name, value })),
+        )
+    )
+    .addStringOption(option =>
+      option
+        .setName('timezone')
+        .setDescription('Time zone for dates, e.g. Europe/Madrid, or "auto" for the default')
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('receiver')
+    .setDescription('Show which calendar app backend a channel forwards to')
+    .addChannelOption(option =>
+      option
+        .setName('channel')
+        .setDescription('Channel to check (default: this one)')
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('today')
+    .setDescription("Show today's events on your active account")
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('upcoming')
+    .setDescription('Show upcoming events on your active account')
+    .addIntegerOption(option =>
+      option
+        .setName('days')
+        .setDescription('How many days ahead to look (default 7)')
+        .setMinValue(1)
+        .setMaxValue(90)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('find')
+    .setDescription('Search events on your active account')
+    .addStringOption(option =>
+      option
+        .setName('query')
+        .setDescription('Text to search for in event titles and locations')
+        .setRequired(true)
+        .setMaxLength(100)
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('config')
+    .setDescription('Manage how the bot behaves in this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('show')
+        .setDescription('Show the current settings for this server')
+    )
+    .addSubcommandGroup(group =>
+      group
+        .setName('channels')
+        .setDescription('Channels whose messages are forwarded')
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('add')
+            .setDescription('Forward messages from a channel')
+            .addChannelOption(option =>
+              option
+                .setName('channel')
+                .setDescription('Channel to add')
+                .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.PublicThread, ChannelType.PrivateThread)
+                .setRequired(true)
+            )
+        )
+        .addSubcommand(subcommand =>
+          subcommand
+            .setName('remove')
+            .setDescription('Stop forwarding messages from a channel')
+            .addChannelOption(option =>
+              option
+                .setName('channel')
+                .setDescription('Channel to remove')
+                .setRequired(true)
+            )
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('text')
+        .setDescription('Turn forwarding of text messages on or off')
+        .addStringOption(option =>
+          option
+            .setName('state')
+            .setDescription('on or off')
+            .setRequired(true)
+            .addChoices({ name: 'on', value: 'on' }, { name: 'off', value: 'off' })
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('attachments')
+        .setDescription('Set which attachment types are forwarded')
+        .addStringOption(option =>
+          option
+            .setName('types')
+            .setDescription('Comma-separated content types, e.g. "image/png,image/jpeg", or "default"')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('verbosity')
+        .setDescription('Set how much the bot replies to forwarded messages')
+        .addStringOption(option =>
+          option
+            .setName('level')
+            .setDescription('quiet: never reply, normal: report problems, verbose: also confirm successes')
+            .setRequired(true)
+            .addChoices(
+              { name: 'quiet', value: 'quiet' },
+              { name: 'normal', value: 'normal' },
+              { name: 'verbose', value: 'verbose' },
+            )
+        )
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('digest')
+    .setDescription('Post a daily or weekly list of events in a channel')
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('set')
+        .setDescription('Schedule the digest for this server (Manage Server)')
+        .addChannelOption(option =>
+          option
+            .setName('channel')
+            .setDescription('Channel to post in; its forwarded messages are included')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+            .setRequired(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('time')
+            .setDescription('Time of day to post, HH:MM (24-hour)')
+            .setRequired(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('tz')
+            .setDescription('Time zone, e.g. Europe/Madrid')
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('scope')
+            .setDescription("daily: each day's events; weekly: the week's events, posted on Mondays")
+            .setRequired(true)
+            .addChoices(
+              { name: 'daily', value: 'daily' },
+              { name: 'weekly', value: 'weekly' },
+            )
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('off')
+        .setDescription('Stop posting the digest (Manage Server)')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('show')
+        .setDescription("Show this server's digest schedule")
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('subscribe')
+        .setDescription("Include events from your active account in this server's digest")
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('unsubscribe')
+        .setDescription("Stop including your events in this server's digest")
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('outbox')
+    .setDescription('Inspect and replay receiver forwards that could not be delivered (bot admins only)')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('Show pending and dead-letter items')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('replay')
+        .setDescription('Retry dead-letter items')
+        .addStringOption(option =>
+          option
+            .setName('id')
+            .setDescription('Item ID to replay, or "all"')
+            .setRequired(true)
+        )
+    )
+    .toJSON(),
+  new SlashCommandBuilder()
+    .setName('blocklist')
+    .setDescription('Manage Discord users the bot ignores (bot admins only)')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription('Show blocked users')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription('Block a user from using the bot')
+        .addStringOption(option =>
+          option
+            .setName('user_id')
+            .setDescription('Discord user ID to block')
+            .setRequired(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('reason')
+            .setDescription('Why the user is blocked')
+            .setMaxLength(200)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription('Unblock a user')
+        .addStringOption(option =>
+          option
+            .setName('user_id')
+            .setDescription('Discord user ID to unblock')
+            .setRequired(true)
+        )
+    )
+    .toJSON(),
+  new ContextMenuCommandBuilder()
+    .setName(ADD_TO_CALENDAR_COMMAND)
+    .setType(ApplicationCommandType.Message)
+    .toJSON(),
+];
+
+// Parent of a thread channel, or null for any other channel (or one that is not cached)
+export function threadParentId(channel: Channel | null | undefined): string | null {
+  return channel?.isThread() ? channel.parentId : null;
+}
+
+export function contextFromMessage(message: Message, i18n: Translator): CommandContext {
+  return {
+    userId: message.author.id,
+    username: message.author.username,
+    guildId: message.guildId,
+    channelId: message.channelId,
+    parentChannelId: threadParentId(message.channel),
+    canManageGuild: !!message.member?.permissions.has(PermissionFlagsBits.ManageGuild),
+    i18n,
+    async reply(options) {
+      if (typeof options === 'string') {
+        await message.reply(options);
+        return;
+      }
+      const { suppressEmbeds, ...rest } = options;
+      await message.reply({ ...rest, flags: suppressEmbeds ? ['SuppressEmbeds'] : undefined });
+    },
+  };
+}
+
+// Expects the interaction to have been deferred ephemerally; replies edit the deferred response
+export function contextFromInteraction(interaction: CommandInteraction, i18n: Translator): CommandContext {
+  return {
+    userId: interaction.user.id,
+    username: interaction.user.username,
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    parentChannelId: threadParentId(interaction.channel),
+    canManageGuild: !!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild),
+    i18n,
+    async reply(options) {
+      if (typeof options === 'string') {
+        await interaction.editReply(options);
+        return;
+      }
+      const { suppressEmbeds, ...rest } = options;
+      await interaction.editReply({ ...rest, flags: suppressEmbeds ? MessageFlags.SuppressEmbeds : undefined });
+    },
+  };
+}
+
+/**
+ * Sync the command definitions with Discord. When guild IDs are given the
+ * commands are registered per guild (instant updates, handy in development);
+ * otherwise they are registered globally.
+ */
+export async function syncCommands(token: string, applicationId: string, guildIds: string[]): Promise<void> {
+  const rest = new REST().setToken(token);
+
+  if (guildIds.length === 0) {
+    await rest.put(Routes.applicationCommands(applicationId), { body: commandDefinitions });
+    logger.info('Synced global commands', { component: 'commands', count: commandDefinitions.length });
+    return;
+  }
+
+  for (const guildId of guildIds) {
+    await rest.put(Routes.applicationGuildCommands(applicationId, guildId), { body: commandDefinitions });
+    logger.info('Synced guild commands', { component: 'commands', count: commandDefinitions.length, guildId });
+  }
+}
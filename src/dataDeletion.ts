@@ -0,0 +1,63 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import { CommandReplyOptions } from './commands.js';
+import { Translator } from './i18n.js';
+
+// Custom ID prefix for the /forget-me confirmation buttons
+const BUTTON_PREFIX = 'forget-me';
+
+export type ForgetMeDecision = 'confirm' | 'cancel';
+
+export interface ForgetMeCustomId {
+  decision: ForgetMeDecision;
+  // Only the user who ran /forget-me may confirm it
+  ownerId: string;
+}
+
+// What was removed for a user, to report back to them
+export interface DeletionSummary {
+  remoteAccounts: number | null;
+  queuedForwards: number;
+  // Other users' "Add to my calendar" forwards of the user's messages; those users are told separately
+  othersForwards: number;
+  trackedMessages: number;
+  // Receiver profiles whose calendar app could not delete the user's data
+  failedReceivers: string[];
+}
+
+export function buildForgetMePrompt(ownerId: string, tr: Translator): CommandReplyOptions {
+  const id = (decision: ForgetMeDecision) => `${BUTTON_PREFIX}:${decision}:${ownerId}`;
+  return {
+    content: tr.t('forgetMe.prompt'),
+    components: [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(id('confirm')).setLabel(tr.t('forgetMe.confirm')).setStyle(ButtonStyle.Danger),
+        new ButtonBuilder().setCustomId(id('cancel')).setLabel(tr.t('forgetMe.cancel')).setStyle(ButtonStyle.Secondary),
+      ),
+    ],
+  };
+}
+
+export function formatDeletionSummary(summary: DeletionSummary, tr: Translator): string {
+  const accounts = summary.remoteAccounts === null
+    ? tr.t('forgetMe.allAccounts')
+    : tr.t('forgetMe.accounts', { count: summary.remoteAccounts });
+  const forwards = summary.othersForwards > 0
+    ? `${tr.t('forgetMe.forwards', { count: summary.queuedForwards })}\n• ${tr.t('forgetMe.othersForwards', { count: summary.othersForwards })}`
+    : tr.t('forgetMe.forwards', { count: summary.queuedForwards });
+  const done = tr.t('forgetMe.done', {
+    accounts,
+    forwards,
+    messages: tr.t('forgetMe.messages', { count: summary.trackedMessages }),
+  });
+  if (summary.failedReceivers.length === 0) return done;
+
+  const receivers = tr.list(summary.failedReceivers.map(name => `\`${name}\``));
+  return `${done}\n\n${tr.t('forgetMe.partial', { receivers, count: summary.failedReceivers.length })}`;
+}
+
+export function parseForgetMeButtonId(customId: string): ForgetMeCustomId | null {
+  const [prefix, decision, ownerId] = customId.split(':');
+  if (prefix !== BUTTON_PREFIX || !ownerId) return null;
+  if (decision !== 'confirm' && decision !== 'cancel') return null;
+  return { decision, ownerId };
+}
@@ -0,0 +1,293 @@
+import { EmbedBuilder } from 'discord.js';
+import { CalendarEvent } from './calendarClient.js';
+import { formatTime } from './eventConfirmation.js';
+import { Translator } from './i18n.js';
+import { JsonFile } from './jsonFile.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'digests' });
+
+// daily: every day, covering that day; weekly: Mondays, covering Monday to Sunday
+export type DigestScope = 'daily' | 'weekly';
+
+export interface DigestSchedule {
+  guildId: string;
+  channelId: string;
+  // Local time of day to post, HH:MM
+  time: string;
+  timezone: string;
+  scope: DigestScope;
+  // Users whose active account's events are included, in addition to the channel's forwards
+  subscribers: string[];
+  // Local date (YYYY-MM-DD) of the last run, so each day is posted at most once
+  lastRunOn?: string;
+}
+
+// The window a digest covers, as UTC instants
+export interface DigestWindow {
+  from: Date;
+  to: Date;
+  // Local dates in the window, in order
+  days: string[];
+}
+
+// What a run did: 'retry' leaves the schedule due, e.g. when Discord or the calendar app could not be reached
+export type DigestOutcome = 'posted' | 'empty' | 'retry';
+
+export type DigestRunner = (schedule: DigestSchedule, window: DigestWindow) => Promise<DigestOutcome>;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export function isValidTime(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Local calendar date, time and weekday of an instant in a time zone
+function localParts(instant: Date, timeZone: string): { date: string; time: string; weekday: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+    weekday: part('weekday'),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const { date, time } = localParts(instant, timeZone);
+  const seconds = instant.getUTCSeconds() * 1000 + instant.getUTCMilliseconds();
+  return Date.parse(`${date}T${time}:00Z`) + seconds - instant.getTime();
+}
+
+// UTC instant of local midnight on a date, corrected once for DST changes on that day
+function startOfLocalDay(date: string, timeZone: string): Date {
+  const guess = Date.parse(`${date}T00:00:00Z`);
+  let result = guess - zoneOffsetMs(new Date(guess), timeZone);
+  result = guess - zoneOffsetMs(new Date(result), timeZone);
+  return new Date(result);
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// The given number of whole local days in a time zone, starting with today
+export function localDays(timeZone: string, now: Date, length: number): DigestWindow {
+  const today = localParts(now, timeZone).date;
+  return {
+    from: startOfLocalDay(today, timeZone),
+    to: startOfLocalDay(addDays(today, length), timeZone),
+    days: Array.from({ length }, (_, index) => addDays(today, index)),
+  };
+}
+
+export function digestWindow(schedule: DigestSchedule, now: Date): DigestWindow {
+  return localDays(schedule.timezone, now, schedule.scope === 'weekly' ? 7 : 1);
+}
+
+// Whether the schedule should post now: its time has passed today and it has not run yet
+export function isDue(schedule: DigestSchedule, now: Date): boolean {
+  const local = localParts(now, schedule.timezone);
+  if (schedule.lastRunOn === local.date || local.time < schedule.time) return false;
+  return schedule.scope === 'daily' || local.weekday === 'Mon';
+}
+
+// Local date an event falls on; all-day events carry their date as-is
+function eventDay(event: CalendarEvent, timeZone: string): string {
+  return DATE_ONLY.test(event.start) ? event.start : localParts(new Date(event.start), timeZone).date;
+}
+
+function formatDay(date: string, timeZone: string, tr: Translator): string {
+  return new Intl.DateTimeFormat(tr.tag, { timeZone, weekday: 'long', month: 'long', day: 'numeric' })
+    .format(new Date(`${date}T12:00:00Z`));
+}
+
+function formatEventLine(event: CalendarEvent, tr: Translator): string {
+  const when = DATE_ONLY.test(event.start) ? tr.t('digest.allDay') : formatTime(event.start, 't');
+  const where = event.location ? ` · 📍 ${event.location}` : '';
+  const title = event.url ? `[${event.title}](${event.url})` : `**${event.title}**`;
+  return `${when} ${title}${where}`;
+}
+
+// Discord limits embed field values to 1024 characters
+function joinLines(lines: string[], tr: Translator, limit = 1024): string {
+  let value = '';
+  for (const [index, line] of lines.entries()) {
+    const more = `\n${tr.t('digest.more', { count: lines.length - index })}`;
+    if (value.length + line.length + 1 + more.length > limit) {
+      return value + more;
+    }
+    value += (value ? '\n' : '') + line;
+  }
+  return value;
+}
+
+/**
+ * Build the digest embed, with one section per day that has events. Returns
+ * null when there are no events at all, so empty days are never posted.
+ */
+export function buildDigestEmbed(schedule: DigestSchedule, window: DigestWindow, events: CalendarEvent[], tr: Translator): EmbedBuilder | null {
+  const byDay = new Map<string, CalendarEvent[]>(window.days.map(day => [day, []]));
+  for (const event of [...events].sort((a, b) => Date.parse(a.start) - Date.parse(b.start))) {
+    byDay.get(eventDay(event, schedule.timezone))?.push(event);
+  }
+
+  const days = [...byDay].filter(([, dayEvents]) => dayEvents.length > 0);
+  if (days.length === 0) return null;
+
+  const total = days.reduce((sum, [, dayEvents]) => sum + dayEvents.length, 0);
+  const embed = new EmbedBuilder()
+    .setColor(0x5865f2)
+    .setTitle(schedule.scope === 'weekly' ? tr.t('digest.weekTitle') : `📅 ${formatDay(window.days[0], schedule.timezone, tr)}`)
+    .setFooter({ text: tr.t('digest.footer', { count: total, timezone: schedule.timezone }) });
+
+  const lines = (dayEvents: CalendarEvent[]) => dayEvents.map(event => formatEventLine(event, tr));
+  if (schedule.scope === 'daily') {
+    embed.setDescription(joinLines(lines(days[0][1]), tr, 4096));
+  } else {
+    embed.addFields(days.map(([day, dayEvents]) => ({
+      name: formatDay(day, schedule.timezone, tr),
+      value: joinLines(lines(dayEvents), tr),
+    })));
+  }
+  return embed;
+}
+
+/**
+ * Persisted digest schedules, one per guild, and the timer that runs them.
+ */
+export class DigestScheduler {
+  private schedules: Record<string, DigestSchedule> = {};
+  private readonly file: JsonFile<Record<string, DigestSchedule>>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async init() {
+    this.schedules = await this.file.read({});
+  }
+
+  start(runner: DigestRunner) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDue(runner).catch(error => log.error('Digest loop error', { error }));
+    }, CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.file.flush();
+  }
+
+  get(guildId: string): DigestSchedule | undefined {
+    return this.schedules[guildId];
+  }
+
+  /**
+   * Create or replace a guild's schedule, keeping its subscribers. If today's
+   * time has already passed, the first digest goes out tomorrow.
+   */
+  async set(input: Omit<DigestSchedule, 'subscribers' | 'lastRunOn'>): Promise<DigestSchedule> {
+    const now = new Date();
+    const local = localParts(now, input.timezone);
+    const schedule: DigestSchedule = {
+      ...input,
+      subscribers: this.schedules[input.guildId]?.subscribers || [],
+      lastRunOn: local.time >= input.time ? local.date : undefined,
+    };
+    this.schedules[input.guildId] = schedule;
+    await this.persist();
+    return schedule;
+  }
+
+  async remove(guildId: string): Promise<boolean> {
+    if (!this.schedules[guildId]) return false;
+    delete this.schedules[guildId];
+    await this.persist();
+    return true;
+  }
+
+  // Returns false if the guild has no digest
+  async setSubscribed(guildId: string, userId: string, subscribed: boolean): Promise<boolean> {
+    const schedule = this.schedules[guildId];
+    if (!schedule) return false;
+
+    const others = schedule.subscribers.filter(id => id !== userId);
+    schedule.subscribers = subscribed ? [...others, userId] : others;
+    await this.persist();
+    return true;
+  }
+
+  // Remove a user from every guild's digest; returns how many they were subscribed to
+  async unsubscribeEverywhere(userId: string): Promise<number> {
+    let removed = 0;
+    for (const schedule of Object.values(this.schedules)) {
+      if (schedule.subscribers.includes(userId)) {
+        schedule.subscribers = schedule.subscribers.filter(id => id !== userId);
+        removed += 1;
+      }
+    }
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  private async runDue(runner: DigestRunner) {
+    // A slow calendar app must not let ticks overlap and post twice
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = new Date();
+      for (const schedule of Object.values(this.schedules)) {
+        if (!isDue(schedule, now)) continue;
+
+        // Only marked once it posted or found nothing to post; otherwise the next tick tries again
+        const outcome = await runner(schedule, digestWindow(schedule, now)).catch(error => {
+          log.error('Digest failed', { guildId: schedule.guildId, error });
+          return 'retry' as const;
+        });
+        if (outcome === 'retry') continue;
+
+        schedule.lastRunOn = localParts(now, schedule.timezone).date;
+        await this.persist();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(this.schedules);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  ActionRowBuilder,
+  APIEmbed,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { EventChanges, EventDecision, ExtractedEvent } from './calendarClient.js';
+import { MessageKey, Translator } from './i18n.js';
+
+// Custom ID prefixes for the confirmation buttons and the edit modal
+const BUTTON_PREFIX = 'event';
+const MODAL_PREFIX = 'event-edit';
+
+export type EventEmbedStatus = 'pending' | 'confirmed' | 'edited' | 'discarded';
+
+const statusStyles: Record<EventEmbedStatus, { color: number; footer: MessageKey }> = {
+  pending: { color: 0x5865f2, footer: 'event.pending' },
+  confirmed: { color: 0x57f287, footer: 'event.confirmed' },
+  edited: { color: 0x57f287, footer: 'event.edited' },
+  discarded: { color: 0xed4245, footer: 'event.discarded' },
+};
+
+export interface EventCustomId {
+  decision: EventDecision;
+  eventId: string;
+  // Only the user who forwarded the message may act on its events
+  ownerId: string;
+}
+
+// Discord renders <t:unix:style> in each viewer's own locale and timezone
+export function formatTime(value: string, style: 'F' | 'R' | 't' = 'F'): string {
+  const time = Date.parse(value);
+  return isNaN(time) ? value : `<t:${Math.floor(time / 1000)}:${style}>`;
+}
+
+// Recover the ISO time from a field written by formatTime, for pre-filling the edit modal
+function parseTime(value: string | undefined): string {
+  const match = value?.match(/^<t:(\d+):F>$/);
+  return match ? new Date(parseInt(match[1]) * 1000).toISOString() : value || '';
+}
+
+export function buildEventEmbed(event: ExtractedEvent, account: string, tr: Translator, status: EventEmbedStatus = 'pending'): EmbedBuilder {
+  const { color, footer } = statusStyles[status];
+  // The field order is read back by eventFromEmbed
+  return new EmbedBuilder()
+    .setTitle(event.title)
+    .setColor(color)
+    .addFields(
+      { name: tr.t('event.starts'), value: formatTime(event.start), inline: true },
+      { name: tr.t('event.ends'), value: event.end ? formatTime(event.end) : '—', inline: true },
+      { name: tr.t('event.location'), value: event.location || '—' },
+      { name: tr.t('event.account'), value: event.account || account },
+    )
+    .setFooter({ text: tr.t(footer) });
+}
+
+export function buildEventButtons(eventId: string, ownerId: string, tr: Translator): ActionRowBuilder<ButtonBuilder> {
+  const id = (decision: EventDecision) => `${BUTTON_PREFIX}:${decision}:${eventId}:${ownerId}`;
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId(id('confirm')).setLabel(tr.t('event.confirm')).setStyle(ButtonStyle.Success),
+    new ButtonBuilder().setCustomId(id('edit')).setLabel(tr.t('event.edit')).setStyle(ButtonStyle.Primary),
+    new ButtonBuilder().setCustomId(id('discard')).setLabel(tr.t('event.discard')).setStyle(ButtonStyle.Danger),
+  );
+}
+
+// Read an event back from an embed built by buildEventEmbed; fields are matched by position, since their names are translated
+export function eventFromEmbed(eventId: string, embed: APIEmbed): ExtractedEvent {
+  const field = (index: number) => {
+    const value = embed.fields?.[index]?.value;
+    return value && value !== '—' ? value : undefined;
+  };
+  return {
+    id: eventId,
+    title: embed.title || '',
+    start: parseTime(field(0)),
+    end: field(1) ? parseTime(field(1)) : undefined,
+    location: field(2),
+    account: field(3),
+  };
+}
+
+export function buildEditModal(event: ExtractedEvent, ownerId: string, tr: Translator): ModalBuilder {
+  const input = (id: keyof EventChanges, label: string, value: string | null | undefined, required: boolean) =>
+    new ActionRowBuilder<TextInputBuilder>().addComponents(
+      new TextInputBuilder()
+        .setCustomId(id)
+        .setLabel(label)
+        .setStyle(TextInputStyle.Short)
+        .setRequired(required)
+        .setValue(value || '')
+    );
+
+  return new ModalBuilder()
+    .setCustomId(`${MODAL_PREFIX}:${event.id}:${ownerId}`)
+    .setTitle(tr.t('event.modalTitle'))
+    .addComponents(
+      input('title', tr.t('event.modalName'), event.title, true),
+      input('start', tr.t('event.modalStart'), event.start, true),
+      input('end', tr.t('event.modalEnd'), event.end, false),
+      input('location', tr.t('event.modalLocation'), event.location, false),
+    );
+}
+
+export function parseEventButtonId(customId: string): EventCustomId | null {
+  const [prefix, decision, eventId, ownerId] = customId.split(':');
+  if (prefix !== BUTTON_PREFIX || !eventId || !ownerId) return null;
+  if (decision !== 'confirm' && decision !== 'edit' && decision !== 'discard') return null;
+  return { decision, eventId, ownerId };
+}
+
+export function parseEventModalId(customId: string): Omit<EventCustomId, 'decision'> | null {
+  const [prefix, eventId, ownerId] = customId.split(':');
+  if (prefix !== MODAL_PREFIX || !eventId || !ownerId) return null;
+  return { eventId, ownerId };
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from 'discord.js';
+import { CalendarEvent } from './calendarClient.js';
+import { CommandReplyOptions } from './commands.js';
+import { formatTime } from './eventConfirmation.js';
+import { Translator } from './i18n.js';
+
+const PAGE_PREFIX = 'events-page';
+const PAGE_SIZE = 5;
+// How long Previous/Next keep working after a query
+const SESSION_TTL_MS = 15 * 60 * 1000;
+
+interface PagerSession {
+  ownerId: string;
+  title: string;
+  events: CalendarEvent[];
+  // Later pages are rendered in the language of the first
+  tr: Translator;
+  expiresAt: number;
+}
+
+export interface EventPageId {
+  sessionId: string;
+  page: number;
+}
+
+export function parseEventPageId(customId: string): EventPageId | null {
+  const [prefix, sessionId, page] = customId.split(':');
+  if (prefix !== PAGE_PREFIX || !sessionId || isNaN(parseInt(page))) return null;
+  return { sessionId, page: parseInt(page) };
+}
+
+/**
+ * Keeps query results in memory so Previous/Next buttons can page through
+ * them without asking the calendar app again.
+ */
+export class EventPager {
+  private sessions = new Map<string, PagerSession>();
+
+  // Store the results and render the first page
+  open(ownerId: string, title: string, events: CalendarEvent[], tr: Translator): CommandReplyOptions {
+    this.prune();
+
+    const sessionId = randomUUID();
+    this.sessions.set(sessionId, { ownerId, title, events, tr, expiresAt: Date.now() + SESSION_TTL_MS });
+    return this.render(sessionId, 0)!;
+  }
+
+  ownerOf(sessionId: string): string | null {
+    return this.sessions.get(sessionId)?.ownerId || null;
+  }
+
+  // Drop a user's cached query results
+  closeSessionsOf(ownerId: string) {
+    for (const [id, session] of this.sessions) {
+      if (session.ownerId === ownerId) this.sessions.delete(id);
+    }
+  }
+
+  // Returns null once the session has expired
+  render(sessionId: string, page: number): CommandReplyOptions | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.expiresAt < Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+
+    const pageCount = Math.max(1, Math.ceil(session.events.length / PAGE_SIZE));
+    const current = Math.min(Math.max(page, 0), pageCount - 1);
+    const events = session.events.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+    const { tr } = session;
+
+    const embed = new EmbedBuilder()
+      .setTitle(session.title)
+      .setColor(0x5865f2)
+      .setFooter({ text: tr.t('events.page', { page: current + 1, pages: pageCount, count: session.events.length }) });
+
+    if (events.length === 0) {
+      embed.setDescription(tr.t('events.none'));
+    }
+    for (const event of events) {
+      const when = event.end ? `${formatTime(event.start)} → ${formatTime(event.end)}` : formatTime(event.start);
+      const where = event.location ? `\n📍 ${event.location}` : '';
+      const link = event.url ? `\n🔗 [${tr.t('events.open')}](${event.url})` : '';
+      embed.addFields({ name: event.title, value: `🕒 ${when}${where}${link}` });
+    }
+
+    if (pageCount === 1) {
+      return { embeds: [embed], components: [] };
+    }
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${PAGE_PREFIX}:${sessionId}:${current - 1}`)
+        .setLabel(tr.t('events.previous'))
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(current === 0),
+      new ButtonBuilder()
+        .setCustomId(`${PAGE_PREFIX}:${sessionId}:${current + 1}`)
+        .setLabel(tr.t('events.next'))
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(current === pageCount - 1),
+    );
+    return { embeds: [embed], components: [buttons] };
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt < now) this.sessions.delete(id);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { JsonFile } from './jsonFile.js';
+
+export interface ForwardedMessage {
+  messageId: string;
+  channelId: string;
+  authorId: string;
+  kind: 'image' | 'document' | 'events' | 'text';
+  // Receiver profile the message was forwarded to, so edits and deletes follow it
+  receiver?: string;
+  // Outbox IDs of the original forwards, so edits and deletes can catch them before they are sent
+  outboxIds: string[];
+  // Hash of the forwarded text, used to ignore edits that don't change it (e.g. embeds resolving)
+  contentHash?: string;
+  forwardedAt: string;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Persistent record of the messages the bot forwarded, so edits and deletes
+ * are only synced for those. Entries older than the retention window are
+ * dropped.
+ */
+export class ForwardedMessageStore {
+  private messages = new Map<string, ForwardedMessage>();
+  private readonly file: JsonFile<ForwardedMessage[]>;
+
+  constructor(filePath: string, private readonly retentionMs: number) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async init() {
+    const stored = await this.file.read([]);
+    this.messages = new Map(stored.map(entry => [entry.messageId, entry]));
+    this.prune();
+  }
+
+  get(messageId: string): ForwardedMessage | undefined {
+    return this.messages.get(messageId);
+  }
+
+  async record(entry: ForwardedMessage): Promise<void> {
+    const existing = this.messages.get(entry.messageId);
+    this.messages.set(entry.messageId, existing
+      ? { ...existing, outboxIds: [...new Set([...existing.outboxIds, ...entry.outboxIds])] }
+      : entry);
+    this.prune();
+    await this.persist();
+  }
+
+  async setContentHash(messageId: string, contentHash: string): Promise<void> {
+    const entry = this.messages.get(messageId);
+    if (!entry) return;
+
+    entry.contentHash = contentHash;
+    await this.persist();
+  }
+
+  async remove(messageId: string): Promise<void> {
+    if (this.messages.delete(messageId)) {
+      await this.persist();
+    }
+  }
+
+  // Forget every message by an author; returns how many were removed
+  async removeByAuthor(authorId: string): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.messages) {
+      if (entry.authorId === authorId) {
+        this.messages.delete(id);
+        removed += 1;
+      }
+    }
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    await this.file.flush();
+  }
+
+  private prune() {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, entry] of this.messages) {
+      if (Date.parse(entry.forwardedAt) < cutoff) this.messages.delete(id);
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write([...this.messages.values()]);
+  }
+}
@@ -0,0 +1,75 @@
+import { JsonFile } from './jsonFile.js';
+
+// How chatty the bot is in guild channels:
+// quiet - never replies to forwards; normal - only reports problems; verbose - also acknowledges successes
+export type ReplyVerbosity = 'quiet' | 'normal' | 'verbose';
+
+export interface GuildConfig {
+  // Channels whose messages are forwarded; empty means every channel
+  allowedChannels: string[];
+  textForwarding: boolean;
+  // Content type prefixes of attachments to forward, e.g. "image/png"
+  attachmentTypes: string[];
+  verbosity: ReplyVerbosity;
+}
+
+export const DEFAULT_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+  'text/calendar',
+];
+
+/**
+ * Persisted per-guild settings. Only values an admin changed are stored;
+ * everything else falls back to the defaults (which come from the
+ * environment), so changing a default applies to every guild that has not
+ * overridden it.
+ */
+export class GuildConfigStore {
+  private overrides: Record<string, Partial<GuildConfig>> = {};
+  private readonly file: JsonFile<Record<string, Partial<GuildConfig>>>;
+
+  constructor(filePath: string, private readonly defaults: GuildConfig) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async init() {
+    this.overrides = await this.file.read({});
+  }
+
+  getDefaults(): GuildConfig {
+    return { ...this.defaults };
+  }
+
+  get(guildId: string): GuildConfig {
+    return { ...this.defaults, ...this.overrides[guildId] };
+  }
+
+  // Whether a setting uses the default rather than a guild override
+  isDefault(guildId: string, key: keyof GuildConfig): boolean {
+    return this.overrides[guildId]?.[key] === undefined;
+  }
+
+  async set<K extends keyof GuildConfig>(guildId: string, key: K, value: GuildConfig[K]): Promise<GuildConfig> {
+    this.overrides[guildId] = { ...this.overrides[guildId], [key]: value };
+    await this.file.write(this.overrides);
+    return this.get(guildId);
+  }
+
+  // Drop a guild override so the setting follows the default again
+  async reset(guildId: string, key: keyof GuildConfig): Promise<GuildConfig> {
+    const { [key]: _removed, ...rest } = this.overrides[guildId] || {};
+    this.overrides[guildId] = rest;
+    await this.file.write(this.overrides);
+    return this.get(guildId);
+  }
+
+  async flush(): Promise<void> {
+    await this.file.flush();
+  }
+}
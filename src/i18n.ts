@@ -0,0 +1,84 @@
+import { en } from './locales/en.js';
+import { es } from './locales/es.js';
+
+// Message catalogs, templating and locale resolution for bot replies
+
+export type Locale = 'en' | 'es';
+
+// A message, or its singular and plural forms chosen by the {count} parameter
+export type Message = string | { one: string; other: string };
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+
+// Locales other than English may leave messages out; those fall back to English
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+// Each language's name in that language, for /language
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+const catalogs: Record<Locale, Catalog> = { en, es };
+
+export interface Translator {
+  locale: Locale;
+  // BCP 47 tag used for dates, lists and plural rules
+  tag: string;
+  timeZone: string;
+  t(key: MessageKey, params?: MessageParams): string;
+  // Calendar date in the user's locale and time zone; "Unknown" for missing or invalid values
+  date(value: string | null | undefined): string;
+  // "a, b and c" in the user's language
+  list(items: string[]): string;
+}
+
+export function isLocale(value: string): value is Locale {
+  return value in catalogs;
+}
+
+/**
+ * Supported locale for a BCP 47 tag such as Discord's "es-ES" or "en-GB",
+ * or null when the language is not supported.
+ */
+export function resolveLocale(tag: string | null | undefined): Locale | null {
+  const language = (tag || '').toLowerCase().split('-')[0];
+  return isLocale(language) ? language : null;
+}
+
+function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
+
+/**
+ * Translator for one locale and time zone. formatTag is the full tag used
+ * for dates and lists (e.g. "en-GB" for day-first dates) when it belongs to
+ * the same language.
+ */
+export function createTranslator(locale: Locale, timeZone: string, formatTag?: string | null): Translator {
+  const tag = formatTag && resolveLocale(formatTag) === locale ? formatTag : locale;
+  const plurals = new Intl.PluralRules(tag);
+
+  const t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = catalogs[locale][key] ?? en[key];
+    if (typeof message === 'string') return interpolate(message, params);
+
+    const count = Number(params.count ?? 0);
+    return interpolate(plurals.select(count) === 'one' ? message.one : message.other, params);
+  };
+
+  return {
+    locale,
+    tag,
+    timeZone,
+    t,
+    date(value) {
+      const time = value ? Date.parse(value) : NaN;
+      if (isNaN(time)) return t('common.unknown');
+      return new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeZone }).format(time);
+    },
+    list(items) {
+      return new Intl.ListFormat(tag, { type: 'conjunction' }).format(items);
+    },
+  };
+}
@@ -0,0 +1,107 @@
+// Minimal iCalendar (RFC 5545) parsing for event invites shared as .ics files
+
+export interface IcsEvent {
+  uid?: string;
+  title: string;
+  // ISO 8601; a date only (YYYY-MM-DD) for all-day events, no offset when the time is floating or has a TZID
+  start: string;
+  end?: string;
+  allDay: boolean;
+  // TZID the start time is expressed in, when not UTC
+  timezone?: string;
+  location?: string;
+  description?: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(':');
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value] = part.split('=');
+    if (key && value !== undefined) params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// 20250301 -> 2025-03-01, 20250301T140000Z -> 2025-03-01T14:00:00Z
+function parseDate(property: IcsProperty): { value: string; allDay: boolean } | null {
+  const date = property.value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date) {
+    return { value: `${date[1]}-${date[2]}-${date[3]}`, allDay: true };
+  }
+
+  const dateTime = property.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (dateTime) {
+    const [, y, mo, d, h, mi, s, utc] = dateTime;
+    return { value: `${y}-${mo}-${d}T${h}:${mi}:${s}${utc}`, allDay: false };
+  }
+  return null;
+}
+
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfold(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+      continue;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const event = toEvent(current);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+    if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events;
+}
+
+function toEvent(properties: IcsProperty[]): IcsEvent | null {
+  const find = (name: string) => properties.find(property => property.name === name);
+
+  const dtstart = find('DTSTART');
+  const start = dtstart ? parseDate(dtstart) : null;
+  if (!dtstart || !start) return null;
+
+  const dtend = find('DTEND');
+  const end = dtend ? parseDate(dtend) : null;
+  const text = (name: string) => {
+    const property = find(name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+
+  return {
+    uid: find('UID')?.value,
+    title: text('SUMMARY') || 'Untitled event',
+    start: start.value,
+    end: end?.value,
+    allDay: start.allDay,
+    timezone: dtstart.params.TZID,
+    location: text('LOCATION'),
+    description: text('DESCRIPTION'),
+  };
+}
@@ -1,40 +1,65 @@
+import { Server } from 'http';
 import discordBotService from './bot.js';
+import { startHttpServer, stopHttpServer } from './server.js';
+import { logger } from './logger.js';
+import { RequestVerifier, loadSigningKeys } from './signing.js';
+
+// Signed webhooks are accepted with the current key and, until it expires, the previous one
+function signatureVerifier(): RequestVerifier | null {
+  const { accepted } = loadSigningKeys(process.env);
+  return accepted.length > 0 ? new RequestVerifier(accepted) : null;
+}
 
 async function main() {
-  console.log('🚀 Starting Discord Bot for Calendar Integration...');
+  logger.info('Starting Discord Bot for Calendar Integration');
   
+  let server: Server | null = null;
+
   try {
     await discordBotService.start();
-    console.log('✅ Discord Bot is running and ready to receive messages');
-    console.log('📝 Bot will forward images and text to the configured receiver endpoint');
+    logger.info('Discord Bot is running and ready to receive messages');
+
+    server = await startHttpServer({
+      port: parseInt(process.env.PORT || '8080'),
+      webhookSecret: process.env.WEBHOOK_SECRET || '',
+      signatureVerifier: signatureVerifier(),
+      onNotification: notification => discordBotService.deliverNotification(notification),
+      getReadiness: () => discordBotService.getReadiness(),
+    });
   } catch (error) {
-    console.error('❌ Failed to start Discord Bot:', error);
+    logger.error('Failed to start Discord Bot', { error });
     process.exit(1);
   }
 
-  // Graceful shutdown handling
-  process.on('SIGINT', async () => {
-    console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+  const shutdown = async () => {
+    if (server) {
+      await stopHttpServer(server).catch(error => logger.error('Error stopping HTTP server', { error }));
+    }
     await discordBotService.stop();
     process.exit(0);
+  };
+
+  // Graceful shutdown handling
+  process.on('SIGINT', async () => {
+    logger.info('Received SIGINT, shutting down gracefully');
+    await shutdown();
   });
 
   process.on('SIGTERM', async () => {
-    console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
-    await discordBotService.stop();
-    process.exit(0);
+    logger.info('Received SIGTERM, shutting down gracefully');
+    await shutdown();
   });
 }
 
 // Handle unhandled promise rejections
-process.on('unhandledRejection', (reason, promise) => {
-  console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled rejection', { error: reason });
 });
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
-  console.error('Uncaught Exception:', error);
+  logger.error('Uncaught exception', { error });
   process.exit(1);
 });
 
-main().catch(console.error);
\ No newline at end of file
+main().catch(error => logger.error('Fatal error', { error }));
\ No newline at end of file
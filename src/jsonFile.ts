@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A JSON document on disk. Writes are serialized and replace the file
+ * atomically, so a crash mid-write never leaves a truncated file behind.
+ */
+export class JsonFile<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  // Returns the fallback when the file does not exist yet
+  async read(fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return fallback;
+      }
+      throw error;
+    }
+  }
+
+  write(data: T): Promise<void> {
+    const snapshot = JSON.stringify(data, null, 2);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+
+  // Wait for pending writes to finish
+  async flush(): Promise<void> {
+    await this.writeQueue.catch(() => undefined);
+  }
+}
@@ -0,0 +1,239 @@
+import type { Message } from '../i18n.js';
+
+// English replies; every other locale falls back to these for missing messages
+export const en = {
+  'common.unknown': 'Unknown',
+  'common.more': '…and {count} more.',
+  'common.tryLater': 'Please try again later.',
+  'common.unknownCommand': '❌ Unknown command.',
+  'common.blocked': '❌ You are not allowed to use this bot.',
+  'common.adminOnly': '❌ This command is restricted to bot admins.',
+
+  // Errors from the calendar app
+  'calendar.unauthorized': 'The bot is not authorized to talk to the calendar app. Please contact an admin.',
+  'calendar.unavailable': 'The calendar app is unavailable or sent an unexpected response. Please try again later.',
+
+  'rateLimit.command.user': "⏳ You're using `{command}` too often. Try again in {retryAfter}.",
+  'rateLimit.command.guild': '⏳ This server is using `{command}` too often. Try again in {retryAfter}.',
+  'rateLimit.forward.user': "⏳ You're sending messages to the calendar too quickly. I skipped this one; please try again in {retryAfter}.",
+  'rateLimit.forward.guild': '⏳ This server is sending messages to the calendar too quickly. I skipped this one; please try again in {retryAfter}.',
+  'rateLimit.addToCalendar': "⏳ You're sending messages to the calendar too quickly. Try again in {retryAfter}.",
+
+  // Registration and accounts
+  'register.required': '❌ **You need to register first!**\n\nTo link a Google account, use `/register`.\n\nAfter registration, images and messages you send will be saved to your calendar account.',
+  'register.prefixUsage': "❌ Invalid format. Use: `!register` (no email needed - you'll authenticate with Google)",
+  'register.link': '🔐 **Google Authentication Required**\n\n' +
+    'To link your Discord account with a Google email, please click the link below:\n\n' +
+    '🔗 **[Authenticate with Google]({url})**\n\n' +
+    '📋 **Multi-Account Support:**\n' +
+    '• If this is your first account, it will be set as active\n' +
+    '• If you already have accounts, this will add a new one or refresh an existing one\n' +
+    '• Use `/accounts` to see all your registered accounts\n' +
+    '• Use `/switch` to switch between accounts\n\n' +
+    '⚠️ This link expires in 10 minutes for security.\n' +
+    "✅ After authentication, you'll be able to upload images that will be saved to your active calendar account.",
+  'register.failed': '❌ Authentication setup failed: {reason}',
+  'register.failedFallback': 'a technical error occurred. Please try again later.',
+  'status.active': '✅ **Registration Status: ACTIVE**\n📧 Email: **{email}**\n📅 Registered: {registeredAt}',
+  'status.notRegistered': '❌ **Registration Status: NOT REGISTERED**\n\nTo link a Google account, use `/register`.',
+  'status.failed': '❌ Unable to check registration status. {reason}',
+  'accounts.none': '📭 You have no Google accounts registered. Use `/register` to add your first account.',
+  'accounts.header': '📋 **Your Registered Google Accounts:**',
+  'accounts.entry': '**{number}.** {email}{active}\n   Registered: {registeredAt}',
+  'accounts.activeMarker': ' ✅ (Active)',
+  'accounts.footer': 'Total accounts: **{total}**\n\nUse `/switch` to switch between accounts.',
+  'accounts.failed': '❌ Failed to retrieve your accounts. {reason}',
+  'accounts.choiceActive': ' (Active)',
+  'switch.prefixUsage': '❌ Invalid format. Use: `!switch [account_number]`\n\nExample: `!switch 2`\n\nUse `/accounts` to see your registered accounts.',
+  'switch.invalidNumber': '❌ Please provide a valid account number. Use `/accounts` to see your registered accounts.',
+  'switch.done': '✅ **Account switched successfully!**\n\n📧 Active account: **{email}**\n\nAll future uploads will be saved to this account.',
+  'switch.failed': 'An error occurred while switching accounts.',
+  'unlink.done': '✅ **Account unlinked.**\n\nRemoved **{email}**.\n{next}',
+  'unlink.active': '📧 Active account: **{email}**',
+  'unlink.noneLeft': 'You have no linked accounts left. Use `/register` to add one.',
+  'unlink.failed': 'An error occurred while unlinking the account.',
+
+  // Forwarding
+  'forward.received': 'Got it! I received {items} and started processing.',
+  'forward.queued': '⏳ The calendar app is not reachable right now. I saved {items} and will keep retrying.',
+  'forward.failed': 'Sorry, I could not process {items}. Please try again.',
+  'forward.textQueued': '⏳ The calendar app is not reachable right now. Your message is saved and I will keep retrying.',
+  'forward.textFailed': 'Sorry, I could not forward that message. Please try again.',
+  'forward.noEvents': "❌ I couldn't find any events in `{name}`.",
+  'forward.tooMany': '⚠️ Only the first {max} attachments are forwarded; {names} were skipped.',
+  'forward.typeRejected': '❌ `{name}` was not forwarded: `{contentType}` files are not accepted here.\nAccepted types: {accepted}',
+  'forward.tooLarge': '❌ `{name}` was not forwarded: it is {size}, and the limit is {limit}.',
+  'forward.noTypes': 'none',
+  'attachments.image': { one: 'an image', other: '{count} images' },
+  'attachments.heic': { one: 'a photo', other: '{count} photos' },
+  'attachments.pdf': { one: 'a PDF', other: '{count} PDFs' },
+  'attachments.ics': { one: 'a calendar invite', other: '{count} calendar invites' },
+  'attachments.nothing': 'nothing',
+  'addToCalendar.noAttachments': '❌ This message has no attachments I can add to your calendar.',
+  'addToCalendar.nothingAdded': '❌ Nothing in this message could be added to your calendar.',
+  'addToCalendar.empty': '❌ This message has nothing I can add to your calendar.',
+  'addToCalendar.sent': '✅ Sent this message to the calendar app. Any events it finds will be saved to your active account.',
+  'addToCalendar.queued': '⏳ The calendar app is not reachable right now. The message is saved and I will keep retrying.',
+  'addToCalendar.textNotAccepted': '❌ The calendar app this channel forwards to does not accept text messages.',
+  'deadLetter.notice': {
+    one: "⚠️ <@{userId}> I couldn't deliver your {item} to the calendar app after {count} attempt. A bot admin can retry it later.",
+    other: "⚠️ <@{userId}> I couldn't deliver your {item} to the calendar app after {count} attempts. A bot admin can retry it later.",
+  },
+  'deadLetter.image': 'image',
+  'deadLetter.document': 'PDF',
+  'deadLetter.events': 'calendar invite',
+  'deadLetter.text': 'message',
+  'deadLetter.update': 'message edit',
+  'deadLetter.retract': 'message deletion',
+
+  // Extracted events and notifications
+  'event.found': '📅 <@{userId}> I found this event:',
+  'event.starts': 'Starts',
+  'event.ends': 'Ends',
+  'event.location': 'Location',
+  'event.account': 'Calendar account',
+  'event.activeAccount': 'Your active account',
+  'event.pending': 'Does this look right?',
+  'event.confirmed': '✅ Confirmed',
+  'event.edited': '✏️ Updated and confirmed',
+  'event.discarded': '🗑️ Discarded',
+  'event.confirm': 'Confirm',
+  'event.edit': 'Edit',
+  'event.discard': 'Discard',
+  'event.notOwner': '❌ Only the person who shared this can confirm it.',
+  'event.updateFailed': 'Could not update the event. Please try again.',
+  'event.invalidTime': '❌ `{value}` is not a valid date and time. Try a format like `2025-03-01T14:00`.',
+  'event.modalTitle': 'Edit event',
+  'event.modalName': 'Title',
+  'event.modalStart': 'Start (e.g. 2025-03-01T14:00)',
+  'event.modalEnd': 'End (optional)',
+  'event.modalLocation': 'Location (optional)',
+  'notification.created': '✅ **Added to your calendar:**',
+  'notification.failed': "❌ **I couldn't create an event from this.**\n{reason}",
+  'notification.failedFallback': 'The calendar app could not process it.',
+  'notification.registered': '🔐 **Registration complete!**\n📧 **{email}** is now linked to your Discord account.\n\nImages and messages you send me will be saved to your active calendar account.',
+  'notification.reminder': '⏰ **Upcoming:** starts {when}',
+
+  // Event queries
+  'events.today': "📅 Today's events",
+  'events.upcoming': { one: '📅 Events in the next day', other: '📅 Events in the next {count} days' },
+  'events.find': '🔎 Events matching "{query}"',
+  'events.failed': '❌ Unable to fetch your events. {reason}',
+  'events.none': '📭 No events found.',
+  'events.page': { one: 'Page {page} of {pages} • {count} event', other: 'Page {page} of {pages} • {count} events' },
+  'events.open': 'Open in calendar',
+  'events.previous': 'Previous',
+  'events.next': 'Next',
+  'events.notOwner': '❌ Only the person who ran this command can page through it.',
+  'events.expired': '⌛ These results have expired. Run the command again to refresh them.',
+
+  // /forget-me
+  'forgetMe.prompt': '⚠️ **Delete all your data?**\n\n' +
+    'This will:\n' +
+    '• Unlink every Google account connected to your Discord account\n' +
+    '• Ask the calendar app to delete everything it stores for your Discord ID\n' +
+    '• Drop your queued forwards, your language settings and the messages this bot remembers forwarding for you\n\n' +
+    'Events already saved to your Google Calendar are not removed. This cannot be undone.',
+  'forgetMe.confirm': 'Delete my data',
+  'forgetMe.cancel': 'Cancel',
+  'forgetMe.notOwner': '❌ Only the person who ran this command can confirm it.',
+  'forgetMe.cancelled': '👍 Cancelled. Nothing was deleted.',
+  'forgetMe.deleting': '⏳ Deleting your data...',
+  'forgetMe.failed': '❌ Your data could not be deleted. {reason}',
+  'forgetMe.done': '🗑️ **Your data has been deleted.**\n\n• {accounts} and the calendar app deleted your data\n• {forwards}\n• {messages}\n\nYou can use `/register` again at any time.',
+  'forgetMe.partial': {
+    one: '⚠️ The calendar app for {receivers} could not delete your data. Run `/forget-me` again later to finish.',
+    other: '⚠️ The calendar apps for {receivers} could not delete your data. Run `/forget-me` again later to finish.',
+  },
+  'forgetMe.allAccounts': 'All linked accounts were removed',
+  'forgetMe.accounts': { one: 'Removed **{count}** linked account', other: 'Removed **{count}** linked accounts' },
+  'forgetMe.forwards': { one: 'Dropped **{count}** queued forward', other: 'Dropped **{count}** queued forwards' },
+  'forgetMe.messages': { one: 'Forgot **{count}** forwarded message', other: 'Forgot **{count}** forwarded messages' },
+  'forgetMe.othersForwards': {
+    one: 'Dropped **{count}** queued forward of your messages that another user added to their calendar; they were told',
+    other: 'Dropped **{count}** queued forwards of your messages that other users added to their calendars; they were told',
+  },
+  'forgetMe.droppedForYou': {
+    one: '🗑️ **{count}** of your queued **Add to my calendar** forwards was dropped because the author of the message deleted their data.',
+    other: '🗑️ **{count}** of your queued **Add to my calendar** forwards were dropped because the authors of the messages deleted their data.',
+  },
+
+  // /language
+  'language.show': '🌐 Language: **{language}**{source}\n🕒 Time zone: **{timezone}**{timezoneSource}',
+  'language.updated': '✅ **Preferences updated**\n\n{details}',
+  'language.fromDiscord': ' *(from your Discord settings)*',
+  'language.default': ' *(default)*',
+  'language.invalidTimeZone': "❌ `{timezone}` is not a time zone I know. Use a name like `Europe/Madrid` or `America/New_York`.",
+  'language.saveFailed': '❌ Could not save your preferences. Please try again later.',
+
+  // /receiver
+  'receiver.show': '📡 **Receiver for {place}**: `{profile}` {match}\n🔗 Calendar app: {url}\n📎 Content types: {types}',
+  'receiver.dms': 'direct messages',
+  'receiver.match.channel': '*(set for this channel)*',
+  'receiver.match.parent': '*(set for the parent channel)*',
+  'receiver.match.guild': '*(set for this server)*',
+  'receiver.match.dm': '*(set for direct messages)*',
+  'receiver.match.default': '*(default)*',
+  'receiver.allTypes': 'all',
+
+  // /config
+  'config.guildOnly': '❌ Server settings can only be changed inside a server.',
+  'config.needsManage': '❌ You need the **Manage Server** permission to change these settings.',
+  'config.saveFailed': '❌ Could not save the settings. Please try again later.',
+  'config.showTitle': '⚙️ **Server settings**',
+  'config.updatedTitle': '✅ **Settings updated**',
+  'config.summary': '{title}\n\n' +
+    '📢 Channels: {channels}{channelsSource}\n' +
+    '📝 Text forwarding: **{text}**{textSource}\n' +
+    '📎 Attachment types: {types}{typesSource}\n' +
+    '💬 Reply verbosity: **{verbosity}**{verbositySource}',
+  'config.allChannels': 'All channels',
+  'config.default': ' *(default)*',
+  'config.on': 'on',
+  'config.off': 'off',
+
+  // /digest
+  'digest.guildOnly': '❌ Digests can only be set up inside a server.',
+  'digest.needsManage': '❌ You need the **Manage Server** permission to change the digest.',
+  'digest.invalidTime': '❌ Please give the time as HH:MM in 24-hour format, e.g. `08:00`.',
+  'digest.invalidTimeZone': "❌ `{timezone}` is not a time zone I know. Use a name like `Europe/Madrid` or `America/New_York`.",
+  'digest.scheduled': '✅ **Digest scheduled**\n\n{details}',
+  'digest.off': '🔕 The digest is turned off.',
+  'digest.none': '📭 This server has no digest.',
+  'digest.noneSubscribe': '📭 This server has no digest. Someone with **Manage Server** can set one up with `/digest set`.',
+  'digest.subscribed': "✅ Events from your active account will be included in this server's digest.",
+  'digest.unsubscribed': "✅ Your events will no longer be included in this server's digest.",
+  'digest.show': '📅 **Digest**\n\n{details}',
+  'digest.saveFailed': '❌ Could not save the digest. Please try again later.',
+  'digest.details': '📢 Channel: <#{channelId}>\n' +
+    '🕒 {when} ({timezone})\n' +
+    '👥 Subscribed users: **{subscribers}**\n\n' +
+    'Includes events from messages forwarded in that channel and from subscribed users. Days without events are skipped.',
+  'digest.weekly': 'Mondays at **{time}**',
+  'digest.daily': 'Every day at **{time}**',
+  'digest.weekTitle': "📅 This week's events",
+  'digest.footer': { one: '{count} event • {timezone}', other: '{count} events • {timezone}' },
+  'digest.allDay': 'All day',
+  'digest.more': '…and {count} more',
+
+  // /outbox and /blocklist (bot admins)
+  'outbox.summary': '📮 **Outbox**\nPending: **{pending}**\nDead-letter: **{dead}**\n',
+  'outbox.item': '`{id}` ({kind}, {attempts} attempts)\n   Last error: {error}',
+  'outbox.empty': '📭 The dead-letter list is empty.',
+  'outbox.notFound': '❌ No dead-letter item with ID `{id}`.',
+  'outbox.replayed': {
+    one: '🔁 Replayed **{count}** item: {delivered} delivered, {retrying} queued for retry, {dead} failed again.',
+    other: '🔁 Replayed **{count}** items: {delivered} delivered, {retrying} queued for retry, {dead} failed again.',
+  },
+  'outbox.unknownAction': '❌ Unknown outbox action.',
+  'blocklist.empty': '📭 No users are blocked.',
+  'blocklist.header': '🚫 **Blocked users: {count}**',
+  'blocklist.entry': '`{id}` (<@{id}>), blocked {date} by <@{blockedBy}>',
+  'blocklist.reason': '   Reason: {reason}',
+  'blocklist.invalidId': '❌ Please provide a valid Discord user ID.',
+  'blocklist.adminProtected': '❌ Bot admins cannot be blocked.',
+  'blocklist.added': '🚫 Blocked `{id}`. The bot will ignore their messages and commands.',
+  'blocklist.removed': '✅ Unblocked `{id}`.',
+  'blocklist.notBlocked': '❌ `{id}` is not blocked.',
+  'blocklist.unknownAction': '❌ Unknown blocklist action.',
+} satisfies Record<string, Message>;
@@ -0,0 +1,229 @@
+import type { Catalog } from '../i18n.js';
+
+// Spanish replies; anything missing falls back to English
+export const es: Catalog = {
+  'common.unknown': 'Desconocida',
+  'common.more': '…y {count} más.',
+  'common.tryLater': 'Inténtalo de nuevo más tarde.',
+  'common.unknownCommand': '❌ Comando desconocido.',
+  'common.blocked': '❌ No tienes permiso para usar este bot.',
+  'common.adminOnly': '❌ Este comando está reservado a los administradores del bot.',
+
+  'calendar.unauthorized': 'El bot no está autorizado para comunicarse con la app de calendario. Contacta con un administrador.',
+  'calendar.unavailable': 'La app de calendario no está disponible o envió una respuesta inesperada. Inténtalo de nuevo más tarde.',
+
+  'rateLimit.command.user': '⏳ Estás usando `{command}` demasiado seguido. Inténtalo de nuevo en {retryAfter}.',
+  'rateLimit.command.guild': '⏳ Este servidor está usando `{command}` demasiado seguido. Inténtalo de nuevo en {retryAfter}.',
+  'rateLimit.forward.user': '⏳ Estás enviando mensajes al calendario demasiado rápido. He omitido este; inténtalo de nuevo en {retryAfter}.',
+  'rateLimit.forward.guild': '⏳ Este servidor está enviando mensajes al calendario demasiado rápido. He omitido este; inténtalo de nuevo en {retryAfter}.',
+  'rateLimit.addToCalendar': '⏳ Estás enviando mensajes al calendario demasiado rápido. Inténtalo de nuevo en {retryAfter}.',
+
+  'register.required': '❌ **¡Primero tienes que registrarte!**\n\nPara vincular una cuenta de Google, usa `/register`.\n\nDespués del registro, las imágenes y mensajes que envíes se guardarán en tu cuenta de calendario.',
+  'register.prefixUsage': '❌ Formato no válido. Usa: `!register` (no hace falta el correo: te autenticarás con Google)',
+  'register.link': '🔐 **Se requiere autenticación con Google**\n\n' +
+    'Para vincular tu cuenta de Discord con un correo de Google, haz clic en el enlace:\n\n' +
+    '🔗 **[Autenticarse con Google]({url})**\n\n' +
+    '📋 **Varias cuentas:**\n' +
+    '• Si es tu primera cuenta, quedará como activa\n' +
+    '• Si ya tienes cuentas, se añadirá una nueva o se actualizará una existente\n' +
+    '• Usa `/accounts` para ver todas tus cuentas registradas\n' +
+    '• Usa `/switch` para cambiar de cuenta\n\n' +
+    '⚠️ Por seguridad, este enlace caduca en 10 minutos.\n' +
+    '✅ Tras autenticarte, las imágenes que subas se guardarán en tu cuenta de calendario activa.',
+  'register.failed': '❌ No se pudo iniciar la autenticación: {reason}',
+  'register.failedFallback': 'se produjo un error técnico. Inténtalo de nuevo más tarde.',
+  'status.active': '✅ **Estado del registro: ACTIVO**\n📧 Correo: **{email}**\n📅 Registrado: {registeredAt}',
+  'status.notRegistered': '❌ **Estado del registro: NO REGISTRADO**\n\nPara vincular una cuenta de Google, usa `/register`.',
+  'status.failed': '❌ No se pudo comprobar el estado del registro. {reason}',
+  'accounts.none': '📭 No tienes cuentas de Google registradas. Usa `/register` para añadir la primera.',
+  'accounts.header': '📋 **Tus cuentas de Google registradas:**',
+  'accounts.entry': '**{number}.** {email}{active}\n   Registrada: {registeredAt}',
+  'accounts.activeMarker': ' ✅ (Activa)',
+  'accounts.footer': 'Total de cuentas: **{total}**\n\nUsa `/switch` para cambiar de cuenta.',
+  'accounts.failed': '❌ No se pudieron obtener tus cuentas. {reason}',
+  'accounts.choiceActive': ' (Activa)',
+  'switch.prefixUsage': '❌ Formato no válido. Usa: `!switch [número_de_cuenta]`\n\nEjemplo: `!switch 2`\n\nUsa `/accounts` para ver tus cuentas registradas.',
+  'switch.invalidNumber': '❌ Indica un número de cuenta válido. Usa `/accounts` para ver tus cuentas registradas.',
+  'switch.done': '✅ **¡Cuenta cambiada!**\n\n📧 Cuenta activa: **{email}**\n\nTodo lo que subas a partir de ahora se guardará en esta cuenta.',
+  'switch.failed': 'Se produjo un error al cambiar de cuenta.',
+  'unlink.done': '✅ **Cuenta desvinculada.**\n\nSe eliminó **{email}**.\n{next}',
+  'unlink.active': '📧 Cuenta activa: **{email}**',
+  'unlink.noneLeft': 'Ya no tienes cuentas vinculadas. Usa `/register` para añadir una.',
+  'unlink.failed': 'Se produjo un error al desvincular la cuenta.',
+
+  'forward.received': '¡Recibido! Tengo {items} y he empezado a procesarlo.',
+  'forward.queued': '⏳ La app de calendario no está disponible ahora mismo. He guardado {items} y seguiré reintentándolo.',
+  'forward.failed': 'Lo siento, no pude procesar {items}. Inténtalo de nuevo.',
+  'forward.textQueued': '⏳ La app de calendario no está disponible ahora mismo. Tu mensaje está guardado y seguiré reintentándolo.',
+  'forward.textFailed': 'Lo siento, no pude reenviar ese mensaje. Inténtalo de nuevo.',
+  'forward.noEvents': '❌ No encontré ningún evento en `{name}`.',
+  'forward.tooMany': '⚠️ Solo se reenvían los primeros {max} adjuntos; se omitieron {names}.',
+  'forward.typeRejected': '❌ `{name}` no se reenvió: aquí no se aceptan archivos `{contentType}`.\nTipos aceptados: {accepted}',
+  'forward.tooLarge': '❌ `{name}` no se reenvió: ocupa {size} y el límite es {limit}.',
+  'forward.noTypes': 'ninguno',
+  'attachments.image': { one: 'una imagen', other: '{count} imágenes' },
+  'attachments.heic': { one: 'una foto', other: '{count} fotos' },
+  'attachments.pdf': { one: 'un PDF', other: '{count} PDF' },
+  'attachments.ics': { one: 'una invitación de calendario', other: '{count} invitaciones de calendario' },
+  'attachments.nothing': 'nada',
+  'addToCalendar.noAttachments': '❌ Este mensaje no tiene adjuntos que pueda añadir a tu calendario.',
+  'addToCalendar.nothingAdded': '❌ No se pudo añadir nada de este mensaje a tu calendario.',
+  'addToCalendar.empty': '❌ Este mensaje no tiene nada que pueda añadir a tu calendario.',
+  'addToCalendar.sent': '✅ He enviado este mensaje a la app de calendario. Los eventos que encuentre se guardarán en tu cuenta activa.',
+  'addToCalendar.queued': '⏳ La app de calendario no está disponible ahora mismo. El mensaje está guardado y seguiré reintentándolo.',
+  'addToCalendar.textNotAccepted': '❌ La app de calendario a la que reenvía este canal no acepta mensajes de texto.',
+  'deadLetter.notice': {
+    one: '⚠️ <@{userId}> No pude entregar tu {item} a la app de calendario tras {count} intento. Un administrador del bot puede reintentarlo más tarde.',
+    other: '⚠️ <@{userId}> No pude entregar tu {item} a la app de calendario tras {count} intentos. Un administrador del bot puede reintentarlo más tarde.',
+  },
+  'deadLetter.image': 'imagen',
+  'deadLetter.document': 'PDF',
+  'deadLetter.events': 'invitación de calendario',
+  'deadLetter.text': 'mensaje',
+  'deadLetter.update': 'edición del mensaje',
+  'deadLetter.retract': 'eliminación del mensaje',
+
+  'event.found': '📅 <@{userId}> He encontrado este evento:',
+  'event.starts': 'Empieza',
+  'event.ends': 'Termina',
+  'event.location': 'Lugar',
+  'event.account': 'Cuenta de calendario',
+  'event.activeAccount': 'Tu cuenta activa',
+  'event.pending': '¿Es correcto?',
+  'event.confirmed': '✅ Confirmado',
+  'event.edited': '✏️ Actualizado y confirmado',
+  'event.discarded': '🗑️ Descartado',
+  'event.confirm': 'Confirmar',
+  'event.edit': 'Editar',
+  'event.discard': 'Descartar',
+  'event.notOwner': '❌ Solo quien compartió esto puede confirmarlo.',
+  'event.updateFailed': 'No se pudo actualizar el evento. Inténtalo de nuevo.',
+  'event.invalidTime': '❌ `{value}` no es una fecha y hora válidas. Prueba un formato como `2025-03-01T14:00`.',
+  'event.modalTitle': 'Editar evento',
+  'event.modalName': 'Título',
+  'event.modalStart': 'Inicio (p. ej. 2025-03-01T14:00)',
+  'event.modalEnd': 'Fin (opcional)',
+  'event.modalLocation': 'Lugar (opcional)',
+  'notification.created': '✅ **Añadido a tu calendario:**',
+  'notification.failed': '❌ **No pude crear un evento a partir de esto.**\n{reason}',
+  'notification.failedFallback': 'La app de calendario no pudo procesarlo.',
+  'notification.registered': '🔐 **¡Registro completado!**\n📧 **{email}** está vinculada a tu cuenta de Discord.\n\nLas imágenes y mensajes que me envíes se guardarán en tu cuenta de calendario activa.',
+  'notification.reminder': '⏰ **Próximamente:** empieza {when}',
+
+  'events.today': '📅 Eventos de hoy',
+  'events.upcoming': { one: '📅 Eventos del próximo día', other: '📅 Eventos de los próximos {count} días' },
+  'events.find': '🔎 Eventos que coinciden con "{query}"',
+  'events.failed': '❌ No se pudieron obtener tus eventos. {reason}',
+  'events.none': '📭 No se encontraron eventos.',
+  'events.page': { one: 'Página {page} de {pages} • {count} evento', other: 'Página {page} de {pages} • {count} eventos' },
+  'events.open': 'Abrir en el calendario',
+  'events.previous': 'Anterior',
+  'events.next': 'Siguiente',
+  'events.notOwner': '❌ Solo quien ejecutó este comando puede pasar las páginas.',
+  'events.expired': '⌛ Estos resultados han caducado. Vuelve a ejecutar el comando para actualizarlos.',
+
+  'forgetMe.prompt': '⚠️ **¿Eliminar todos tus datos?**\n\n' +
+    'Esto hará lo siguiente:\n' +
+    '• Desvincular todas las cuentas de Google conectadas a tu cuenta de Discord\n' +
+    '• Pedir a la app de calendario que elimine todo lo que guarda sobre tu ID de Discord\n' +
+    '• Descartar tus reenvíos pendientes, tus ajustes de idioma y los mensajes que este bot recuerda haber reenviado por ti\n\n' +
+    'Los eventos ya guardados en tu Google Calendar no se eliminan. Esto no se puede deshacer.',
+  'forgetMe.confirm': 'Eliminar mis datos',
+  'forgetMe.cancel': 'Cancelar',
+  'forgetMe.notOwner': '❌ Solo quien ejecutó este comando puede confirmarlo.',
+  'forgetMe.cancelled': '👍 Cancelado. No se eliminó nada.',
+  'forgetMe.deleting': '⏳ Eliminando tus datos...',
+  'forgetMe.failed': '❌ No se pudieron eliminar tus datos. {reason}',
+  'forgetMe.done': '🗑️ **Tus datos se han eliminado.**\n\n• {accounts} y la app de calendario eliminó tus datos\n• {forwards}\n• {messages}\n\nPuedes volver a usar `/register` cuando quieras.',
+  'forgetMe.partial': {
+    one: '⚠️ La app de calendario de {receivers} no pudo eliminar tus datos. Vuelve a usar `/forget-me` más tarde para terminar.',
+    other: '⚠️ Las apps de calendario de {receivers} no pudieron eliminar tus datos. Vuelve a usar `/forget-me` más tarde para terminar.',
+  },
+  'forgetMe.allAccounts': 'Se eliminaron todas las cuentas vinculadas',
+  'forgetMe.accounts': { one: 'Se eliminó **{count}** cuenta vinculada', other: 'Se eliminaron **{count}** cuentas vinculadas' },
+  'forgetMe.forwards': { one: 'Se descartó **{count}** reenvío pendiente', other: 'Se descartaron **{count}** reenvíos pendientes' },
+  'forgetMe.messages': { one: 'Se olvidó **{count}** mensaje reenviado', other: 'Se olvidaron **{count}** mensajes reenviados' },
+  'forgetMe.othersForwards': {
+    one: 'Se descartó **{count}** reenvío pendiente de tus mensajes que otro usuario añadió a su calendario; se le avisó',
+    other: 'Se descartaron **{count}** reenvíos pendientes de tus mensajes que otros usuarios añadieron a sus calendarios; se les avisó',
+  },
+  'forgetMe.droppedForYou': {
+    one: '🗑️ Se descartó **{count}** de tus reenvíos pendientes de **Añadir a mi calendario** porque el autor del mensaje eliminó sus datos.',
+    other: '🗑️ Se descartaron **{count}** de tus reenvíos pendientes de **Añadir a mi calendario** porque los autores de los mensajes eliminaron sus datos.',
+  },
+
+  'language.show': '🌐 Idioma: **{language}**{source}\n🕒 Zona horaria: **{timezone}**{timezoneSource}',
+  'language.updated': '✅ **Preferencias actualizadas**\n\n{details}',
+  'language.fromDiscord': ' *(según tu configuración de Discord)*',
+  'language.default': ' *(predeterminado)*',
+  'language.invalidTimeZone': '❌ No conozco la zona horaria `{timezone}`. Usa un nombre como `Europe/Madrid` o `America/New_York`.',
+  'language.saveFailed': '❌ No se pudieron guardar tus preferencias. Inténtalo de nuevo más tarde.',
+
+  // /receiver
+  'receiver.show': '📡 **Receptor de {place}**: `{profile}` {match}\n🔗 App de calendario: {url}\n📎 Tipos de contenido: {types}',
+  'receiver.dms': 'los mensajes directos',
+  'receiver.match.channel': '*(asignado a este canal)*',
+  'receiver.match.parent': '*(asignado al canal principal)*',
+  'receiver.match.guild': '*(asignado a este servidor)*',
+  'receiver.match.dm': '*(asignado a los mensajes directos)*',
+  'receiver.match.default': '*(predeterminado)*',
+  'receiver.allTypes': 'todos',
+
+  'config.guildOnly': '❌ La configuración del servidor solo se puede cambiar dentro de un servidor.',
+  'config.needsManage': '❌ Necesitas el permiso **Gestionar servidor** para cambiar esta configuración.',
+  'config.saveFailed': '❌ No se pudo guardar la configuración. Inténtalo de nuevo más tarde.',
+  'config.showTitle': '⚙️ **Configuración del servidor**',
+  'config.updatedTitle': '✅ **Configuración actualizada**',
+  'config.summary': '{title}\n\n' +
+    '📢 Canales: {channels}{channelsSource}\n' +
+    '📝 Reenvío de texto: **{text}**{textSource}\n' +
+    '📎 Tipos de adjunto: {types}{typesSource}\n' +
+    '💬 Nivel de respuestas: **{verbosity}**{verbositySource}',
+  'config.allChannels': 'Todos los canales',
+  'config.default': ' *(predeterminado)*',
+  'config.on': 'activado',
+  'config.off': 'desactivado',
+
+  'digest.guildOnly': '❌ Los resúmenes solo se pueden configurar dentro de un servidor.',
+  'digest.needsManage': '❌ Necesitas el permiso **Gestionar servidor** para cambiar el resumen.',
+  'digest.invalidTime': '❌ Indica la hora como HH:MM en formato de 24 horas, p. ej. `08:00`.',
+  'digest.invalidTimeZone': '❌ No conozco la zona horaria `{timezone}`. Usa un nombre como `Europe/Madrid` o `America/New_York`.',
+  'digest.scheduled': '✅ **Resumen programado**\n\n{details}',
+  'digest.off': '🔕 El resumen está desactivado.',
+  'digest.none': '📭 Este servidor no tiene resumen.',
+  'digest.noneSubscribe': '📭 Este servidor no tiene resumen. Alguien con **Gestionar servidor** puede crearlo con `/digest set`.',
+  'digest.subscribed': '✅ Los eventos de tu cuenta activa se incluirán en el resumen de este servidor.',
+  'digest.unsubscribed': '✅ Tus eventos ya no se incluirán en el resumen de este servidor.',
+  'digest.show': '📅 **Resumen**\n\n{details}',
+  'digest.saveFailed': '❌ No se pudo guardar el resumen. Inténtalo de nuevo más tarde.',
+  'digest.details': '📢 Canal: <#{channelId}>\n' +
+    '🕒 {when} ({timezone})\n' +
+    '👥 Usuarios suscritos: **{subscribers}**\n\n' +
+    'Incluye eventos de los mensajes reenviados en ese canal y de los usuarios suscritos. Los días sin eventos se omiten.',
+  'digest.weekly': 'Los lunes a las **{time}**',
+  'digest.daily': 'Todos los días a las **{time}**',
+  'digest.weekTitle': '📅 Eventos de esta semana',
+  'digest.footer': { one: '{count} evento • {timezone}', other: '{count} eventos • {timezone}' },
+  'digest.allDay': 'Todo el día',
+  'digest.more': '…y {count} más',
+
+  'outbox.summary': '📮 **Bandeja de salida**\nPendientes: **{pending}**\nFallidos: **{dead}**\n',
+  'outbox.item': '`{id}` ({kind}, {attempts} intentos)\n   Último error: {error}',
+  'outbox.empty': '📭 La lista de envíos fallidos está vacía.',
+  'outbox.notFound': '❌ No hay ningún envío fallido con el ID `{id}`.',
+  'outbox.replayed': {
+    one: '🔁 Se reintentó **{count}** elemento: {delivered} entregados, {retrying} en cola para reintentar, {dead} fallaron de nuevo.',
+    other: '🔁 Se reintentaron **{count}** elementos: {delivered} entregados, {retrying} en cola para reintentar, {dead} fallaron de nuevo.',
+  },
+  'outbox.unknownAction': '❌ Acción de bandeja de salida desconocida.',
+  'blocklist.empty': '📭 No hay usuarios bloqueados.',
+  'blocklist.header': '🚫 **Usuarios bloqueados: {count}**',
+  'blocklist.entry': '`{id}` (<@{id}>), bloqueado el {date} por <@{blockedBy}>',
+  'blocklist.reason': '   Motivo: {reason}',
+  'blocklist.invalidId': '❌ Indica un ID de usuario de Discord válido.',
+  'blocklist.adminProtected': '❌ No se puede bloquear a los administradores del bot.',
+  'blocklist.added': '🚫 Se bloqueó a `{id}`. El bot ignorará sus mensajes y comandos.',
+  'blocklist.removed': '✅ Se desbloqueó a `{id}`.',
+  'blocklist.notBlocked': '❌ `{id}` no está bloqueado.',
+  'blocklist.unknownAction': '❌ Acción de lista de bloqueo desconocida.',
+};
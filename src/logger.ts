@@ -0,0 +1,124 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+// Leveled JSON logging with automatic redaction and per-message correlation IDs
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds the given fields to every line, e.g. { component: 'outbox' }
+  child(fields: LogFields): Logger;
+}
+
+// Header carrying the correlation ID to the receiver and calendar app
+export const CORRELATION_HEADER = 'x-correlation-id';
+
+const levelOrder: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const correlation = new AsyncLocalStorage<string>();
+
+export function newCorrelationId(): string {
+  return randomUUID();
+}
+
+// Run fn with a correlation ID that every log line and outgoing request inside it picks up
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlation.run(correlationId, fn);
+}
+
+export function currentCorrelationId(): string | undefined {
+  return correlation.getStore();
+}
+
+// Redaction
+
+const REDACTED = '[redacted]';
+// Object keys whose values are never logged
+const SENSITIVE_KEY = /token|secret|password|authorization|cookie|signature|api[-_]?key|^(user)?email$/i;
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const BEARER = /\b(Bearer|Bot)\s+[\w.~+/=-]+/g;
+// Discord bot tokens: three base64url segments separated by dots
+const DISCORD_TOKEN = /\b[\w-]{23,28}\.[\w-]{6,7}\.[\w-]{27,40}\b/g;
+const URL_WITH_QUERY = /\bhttps?:\/\/[^\s"'<>?]+\?[^\s"'<>]*/gi;
+// URLs whose query strings carry OAuth state, codes or credentials
+const SENSITIVE_URL = /oauth|authorize|[?&](code|state|client_secret|access_token|refresh_token|id_token|token|signature|key)=/i;
+
+export function redactString(value: string): string {
+  return value
+    .replace(URL_WITH_QUERY, url => (SENSITIVE_URL.test(url) ? `${url.slice(0, url.indexOf('?'))}?${REDACTED}` : url))
+    .replace(EMAIL, '[email]')
+    .replace(BEARER, `$1 ${REDACTED}`)
+    .replace(DISCORD_TOKEN, REDACTED);
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 6) return '[truncated]';
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack ? redactString(value.stack) : undefined,
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => redact(entry, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) && entry !== undefined && entry !== null ? REDACTED : redact(entry, depth + 1);
+  }
+  return result;
+}
+
+// Output
+
+// Read on every call, since dotenv may load the environment after this module
+function minimumLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return levelOrder[level] ?? levelOrder.info;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (levelOrder[level] < minimumLevel()) return;
+
+  const entry = redact({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    correlationId: currentCorrelationId(),
+    ...fields,
+  }) as LogFields;
+
+  let line: string;
+  if (process.env.LOG_FORMAT === 'pretty') {
+    const { time, level: _level, msg, component, ...rest } = entry;
+    const extra = Object.keys(rest).some(key => rest[key] !== undefined) ? ` ${JSON.stringify(rest)}` : '';
+    line = `${time} ${level.toUpperCase()} ${component ? `[${component}] ` : ''}${msg}${extra}`;
+  } else {
+    line = JSON.stringify(entry);
+  }
+
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(line + '\n');
+}
+
+function createLogger(bound: LogFields): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, { ...bound, ...fields }),
+    info: (message, fields) => write('info', message, { ...bound, ...fields }),
+    warn: (message, fields) => write('warn', message, { ...bound, ...fields }),
+    error: (message, fields) => write('error', message, { ...bound, ...fields }),
+    child: fields => createLogger({ ...bound, ...fields }),
+  };
+}
+
+export const logger = createLogger({});
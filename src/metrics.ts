@@ -0,0 +1,66 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus metrics exposed on /metrics
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export type CommandSource = 'slash' | 'prefix' | 'context-menu';
+
+export const messagesSeen = new Counter({
+  name: 'discord_messages_seen_total',
+  help: 'Discord messages received by the bot',
+  registers: [registry],
+});
+
+export const forwardsAttempted = new Counter({
+  name: 'receiver_forwards_attempted_total',
+  help: 'Forward attempts sent to the receiver, including retries',
+  labelNames: ['type'] as const,
+  registers: [registry],
+});
+
+export const forwardsSucceeded = new Counter({
+  name: 'receiver_forwards_succeeded_total',
+  help: 'Forward attempts accepted by the receiver',
+  labelNames: ['type'] as const,
+  registers: [registry],
+});
+
+export const forwardsFailed = new Counter({
+  name: 'receiver_forwards_failed_total',
+  help: 'Forward attempts that failed or were rejected by the receiver',
+  labelNames: ['type'] as const,
+  registers: [registry],
+});
+
+export const receiverLatency = new Histogram({
+  name: 'receiver_request_duration_seconds',
+  help: 'Latency of receiver requests',
+  labelNames: ['type'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const commandInvocations = new Counter({
+  name: 'bot_command_invocations_total',
+  help: 'Bot commands invoked, by command and by how they were invoked',
+  labelNames: ['command', 'source'] as const,
+  registers: [registry],
+});
+
+export const rateLimited = new Counter({
+  name: 'bot_rate_limited_total',
+  help: 'Forwards and commands refused by a rate limit, by action and by user or guild bucket',
+  labelNames: ['action', 'scope'] as const,
+  registers: [registry],
+});
+
+export const gatewayReconnects = new Counter({
+  name: 'discord_gateway_reconnects_total',
+  help: 'Times the Discord gateway connection started reconnecting',
+  registers: [registry],
+});
+
+export function recordCommand(command: string, source: CommandSource) {
+  commandInvocations.inc({ command, source });
+}
@@ -0,0 +1,77 @@
+import { EmbedBuilder, MessageCreateOptions } from 'discord.js';
+import { z } from 'zod';
+import { formatTime } from './eventConfirmation.js';
+import { Translator } from './i18n.js';
+
+const notificationEventSchema = z.object({
+  title: z.string(),
+  start: z.string(),
+  end: z.string().nullish(),
+  location: z.string().nullish(),
+  url: z.string().url().nullish(),
+});
+
+// Where the notification should go; with a channel and message the bot replies in place, otherwise it DMs the user
+const targetSchema = z.object({
+  discordId: z.string(),
+  discordChannelId: z.string().nullish(),
+  discordMessageId: z.string().nullish(),
+});
+
+// Callbacks the calendar app sends to the bot
+export const calendarNotificationSchema = z.discriminatedUnion('type', [
+  targetSchema.extend({
+    type: z.literal('event.created'),
+    event: notificationEventSchema,
+  }),
+  targetSchema.extend({
+    type: z.literal('processing.failed'),
+    reason: z.string().nullish(),
+  }),
+  targetSchema.extend({
+    type: z.literal('oauth.completed'),
+    email: z.string(),
+  }),
+  targetSchema.extend({
+    type: z.literal('event.reminder'),
+    event: notificationEventSchema,
+  }),
+]);
+
+export type CalendarNotification = z.infer<typeof calendarNotificationSchema>;
+
+function buildEventEmbed(event: z.infer<typeof notificationEventSchema>, color: number, tr: Translator): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setTitle(event.title)
+    .setColor(color)
+    .addFields({ name: tr.t('event.starts'), value: formatTime(event.start, 'F'), inline: true });
+
+  if (event.end) embed.addFields({ name: tr.t('event.ends'), value: formatTime(event.end, 'F'), inline: true });
+  if (event.location) embed.addFields({ name: tr.t('event.location'), value: event.location });
+  if (event.url) embed.setURL(event.url);
+  return embed;
+}
+
+// tr is the recipient's translator
+export function formatNotification(notification: CalendarNotification, tr: Translator): MessageCreateOptions {
+  switch (notification.type) {
+    case 'event.created':
+      return {
+        content: tr.t('notification.created'),
+        embeds: [buildEventEmbed(notification.event, 0x57f287, tr)],
+      };
+    case 'processing.failed':
+      return {
+        content: tr.t('notification.failed', { reason: notification.reason || tr.t('notification.failedFallback') }),
+      };
+    case 'oauth.completed':
+      return {
+        content: tr.t('notification.registered', { email: notification.email }),
+      };
+    case 'event.reminder':
+      return {
+        content: tr.t('notification.reminder', { when: formatTime(notification.event.start, 'R') }),
+        embeds: [buildEventEmbed(notification.event, 0xfee75c, tr)],
+      };
+  }
+}
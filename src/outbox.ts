@@ -0,0 +1,333 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonFile } from './jsonFile.js';
+import { currentCorrelationId, logger, withCorrelationId } from './logger.js';
+
+const log = logger.child({ component: 'outbox' });
+
+// New content to forward (a file, parsed calendar events or text), or a notice about a message that was already forwarded
+export type OutboxItemKind = 'image' | 'document' | 'events' | 'text' | 'update' | 'retract';
+
+export interface OutboxFile {
+  name: string;
+  contentType: string;
+  path: string;
+}
+
+export interface OutboxItem {
+  // Idempotency key, derived from the Discord message ID
+  id: string;
+  kind: OutboxItemKind;
+  // Receiver profile the item is sent to; items queued before routing go to the default
+  receiver?: string;
+  fields: Record<string, string>;
+  files: OutboxFile[];
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+  // Correlation ID of the Discord event that created the item, kept for retries
+  correlationId?: string;
+}
+
+export interface OutboxEnqueueInput {
+  id: string;
+  kind: OutboxItemKind;
+  receiver?: string;
+  fields: Record<string, string>;
+  files?: {
+    name: string;
+    contentType: string;
+    data: Buffer;
+  }[];
+}
+
+// Items persisted before multi-file support carried a single `file`
+type StoredOutboxItem = OutboxItem & { file?: OutboxFile };
+
+export interface OutboxOptions {
+  dir: string;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  pollIntervalMs: number;
+}
+
+// Result of a delivery attempt
+export type DeliveryStatus = 'delivered' | 'retrying' | 'dead';
+
+// Sends one item; throws to signal failure
+export type OutboxSender = (item: OutboxItem) => Promise<void>;
+export type DeadLetterHandler = (item: OutboxItem) => Promise<void>;
+
+// Thrown by a sender when retrying can never succeed (e.g. the receiver rejected the payload)
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+interface OutboxState {
+  pending: OutboxItem[];
+  deadLetter: OutboxItem[];
+}
+
+function migrateItem({ file, ...item }: StoredOutboxItem): OutboxItem {
+  return { ...item, files: item.files || (file ? [file] : []) };
+}
+
+/**
+ * File-backed outbox for receiver forwards. Items are persisted before the
+ * first send attempt, retried with exponential backoff and jitter, and moved
+ * to a dead-letter list once they run out of attempts.
+ */
+export class Outbox {
+  private state: OutboxState = { pending: [], deadLetter: [] };
+  private inFlight = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private sender: OutboxSender | null = null;
+  private onDeadLetter: DeadLetterHandler | null = null;
+  private running = false;
+  private readonly stateFile: JsonFile<{ pending?: StoredOutboxItem[]; deadLetter?: StoredOutboxItem[] }>;
+
+  constructor(private readonly options: OutboxOptions) {
+    this.stateFile = new JsonFile(path.join(options.dir, 'state.json'));
+  }
+
+  private get blobDir() {
+    return path.join(this.options.dir, 'blobs');
+  }
+
+  async init() {
+    await fs.mkdir(this.blobDir, { recursive: true });
+
+    const stored = await this.stateFile.read({});
+    this.state = {
+      pending: (stored.pending || []).map(migrateItem),
+      deadLetter: (stored.deadLetter || []).map(migrateItem),
+    };
+    log.info('Loaded outbox', { pending: this.state.pending.length, deadLetter: this.state.deadLetter.length });
+  }
+
+  start(sender: OutboxSender, onDeadLetter: DeadLetterHandler) {
+    this.sender = sender;
+    this.onDeadLetter = onDeadLetter;
+
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => log.error('Retry loop error', { error }));
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.stateFile.flush();
+  }
+
+  listPending(): OutboxItem[] {
+    return [...this.state.pending];
+  }
+
+  listDeadLetters(): OutboxItem[] {
+    return [...this.state.deadLetter];
+  }
+
+  async enqueue(input: OutboxEnqueueInput): Promise<OutboxItem> {
+    const existing = this.state.pending.find(item => item.id === input.id);
+    if (existing) {
+      return existing;
+    }
+    // A new request for a dead-lettered key replaces it, so a later replay can't send the key twice.
+    // Its blobs go first because the new item's blobs reuse the same paths.
+    const dead = this.state.deadLetter.find(item => item.id === input.id);
+    if (dead) {
+      this.state.deadLetter = this.state.deadLetter.filter(item => item !== dead);
+      await this.removeBlobs(dead);
+    }
+
+    const files: OutboxFile[] = [];
+    for (const [index, file] of (input.files || []).entries()) {
+      const blobPath = path.join(this.blobDir, `${input.id.replace(/[^\w-]/g, '_')}-${index}.bin`);
+      await fs.writeFile(blobPath, file.data);
+      files.push({ name: file.name, contentType: file.contentType, path: blobPath });
+    }
+
+    const now = new Date();
+    const item: OutboxItem = {
+      id: input.id,
+      kind: input.kind,
+      receiver: input.receiver,
+      fields: input.fields,
+      files,
+      attempts: 0,
+      createdAt: now.toISOString(),
+      // The first attempt belongs to deliver(); the retry loop only picks the item up if that never happens
+      nextAttemptAt: this.firstAttemptAt(now),
+      correlationId: currentCorrelationId(),
+    };
+
+    this.state.pending.push(item);
+    await this.persist();
+    return item;
+  }
+
+  // Change the fields of an item that has not been sent yet, dead-lettered ones included so a replay sends the
+  // new fields; false if it is gone or being sent
+  async amend(id: string, fields: Record<string, string>): Promise<boolean> {
+    const item = this.state.pending.find(entry => entry.id === id) || this.state.deadLetter.find(entry => entry.id === id);
+    if (!item || this.inFlight.has(id)) {
+      return false;
+    }
+
+    item.fields = { ...item.fields, ...fields };
+    await this.persist();
+    return true;
+  }
+
+  // Drop an item that has not been sent yet; false if it is gone or being sent
+  async discard(id: string): Promise<boolean> {
+    const item = this.state.pending.find(entry => entry.id === id);
+    if (!item || this.inFlight.has(id)) {
+      return false;
+    }
+
+    this.state.pending = this.state.pending.filter(entry => entry.id !== id);
+    await this.removeBlobs(item);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Drop every pending and dead-letter item matching the predicate, e.g. all
+   * forwards of a user who asked for their data to be deleted. Items being
+   * sent right now are left alone. Returns the removed items.
+   */
+  async purge(predicate: (item: OutboxItem) => boolean): Promise<OutboxItem[]> {
+    const removed = [
+      ...this.state.pending.filter(item => predicate(item) && !this.inFlight.has(item.id)),
+      ...this.state.deadLetter.filter(predicate),
+    ];
+    if (removed.length === 0) {
+      return [];
+    }
+
+    this.state.pending = this.state.pending.filter(item => !removed.includes(item));
+    this.state.deadLetter = this.state.deadLetter.filter(item => !removed.includes(item));
+    for (const item of removed) {
+      await this.removeBlobs(item);
+    }
+    await this.persist();
+    return removed;
+  }
+
+  // Attempt delivery of a pending item right away
+  async deliver(id: string): Promise<DeliveryStatus> {
+    const item = this.state.pending.find(entry => entry.id === id);
+    if (!item) {
+      return this.state.deadLetter.some(entry => entry.id === id) ? 'dead' : 'delivered';
+    }
+    return this.attempt(item);
+  }
+
+  // Move a dead-letter item back to the pending list and attempt it immediately
+  async replay(id: string): Promise<DeliveryStatus | null> {
+    const index = this.state.deadLetter.findIndex(entry => entry.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const [item] = this.state.deadLetter.splice(index, 1);
+    item.attempts = 0;
+    item.nextAttemptAt = this.firstAttemptAt(new Date());
+    this.state.pending.push(item);
+    await this.persist();
+
+    return this.attempt(item);
+  }
+
+  private async processDue() {
+    // A slow receiver must not let ticks overlap and send the same item twice
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = Date.now();
+      const due = this.state.pending.filter(item => Date.parse(item.nextAttemptAt) <= now);
+
+      for (const item of due) {
+        // Retries log under the correlation ID of the message that created them
+        await withCorrelationId(item.correlationId || item.id, () => this.attempt(item));
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private firstAttemptAt(now: Date): string {
+    return new Date(now.getTime() + this.options.baseDelayMs).toISOString();
+  }
+
+  private async attempt(item: OutboxItem): Promise<DeliveryStatus> {
+    if (!this.sender) {
+      throw new Error('Outbox has not been started');
+    }
+    if (this.inFlight.has(item.id)) {
+      return 'retrying';
+    }
+    // Delivered, dead-lettered or discarded since the caller looked it up
+    if (!this.state.pending.includes(item)) {
+      return this.state.deadLetter.includes(item) ? 'dead' : 'delivered';
+    }
+
+    this.inFlight.add(item.id);
+    try {
+      item.attempts += 1;
+      await this.sender(item);
+
+      this.state.pending = this.state.pending.filter(entry => entry.id !== item.id);
+      await this.removeBlobs(item);
+      await this.persist();
+      return 'delivered';
+    } catch (error) {
+      item.lastError = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof PermanentDeliveryError || item.attempts >= this.options.maxAttempts) {
+        log.error('Moving item to dead-letter', { outboxId: item.id, attempts: item.attempts, lastError: item.lastError });
+        this.state.pending = this.state.pending.filter(entry => entry.id !== item.id);
+        this.state.deadLetter.push(item);
+        await this.persist();
+        await this.onDeadLetter?.(item).catch(err => log.error('Dead-letter handler error', { error: err }));
+        return 'dead';
+      }
+
+      const delay = this.backoffDelay(item.attempts);
+      item.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      log.warn('Delivery attempt failed, retrying', { outboxId: item.id, attempt: item.attempts, retryInMs: delay, lastError: item.lastError });
+      await this.persist();
+      return 'retrying';
+    } finally {
+      this.inFlight.delete(item.id);
+    }
+  }
+
+  // Exponential backoff; the delay is jittered between half and all of the ceiling
+  private backoffDelay(attempts: number): number {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private async removeBlobs(item: OutboxItem) {
+    for (const file of item.files) {
+      await fs.rm(file.path, { force: true });
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.stateFile.write(this.state);
+  }
+}
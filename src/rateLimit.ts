@@ -0,0 +1,161 @@
+// Token buckets for forwards and commands, and a cap on concurrent receiver requests
+
+export interface RateLimitRule {
+  // Burst size; the bucket refills completely over windowMs
+  capacity: number;
+  windowMs: number;
+}
+
+export type RateLimitScope = 'user' | 'guild';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  // notify is only set for the first denial until the bucket recovers, so spamming doesn't make the bot spam back
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number; notify: boolean };
+
+export interface RateLimitCheck {
+  scope: RateLimitScope;
+  key: string;
+  rule: RateLimitRule;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  capacity: number;
+  refillPerMs: number;
+  notified: boolean;
+}
+
+const units: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+/**
+ * Parse a rule such as "10/1m" (10 per minute) or "3/10m". Returns null for
+ * "off" or an empty value, which disables the limit.
+ */
+export function parseRateLimitRule(value: string | undefined): RateLimitRule | null {
+  const trimmed = (value || '').trim().toLowerCase();
+  if (!trimmed || trimmed === 'off') return null;
+
+  const match = trimmed.match(/^(\d+)\/(\d+)([smh])$/);
+  if (!match) {
+    throw new Error(`Invalid rate limit "${value}"; expected e.g. "10/1m"`);
+  }
+  const capacity = parseInt(match[1]);
+  const windowMs = parseInt(match[2]) * units[match[3]];
+  return capacity > 0 && windowMs > 0 ? { capacity, windowMs } : null;
+}
+
+// "register:3/10m,find:off" -> per-command rules; a missing command or rule throws rather than leaving the command unlimited
+export function parseCommandRules(value: string | undefined): Record<string, RateLimitRule | null> {
+  const rules: Record<string, RateLimitRule | null> = {};
+  for (const entry of (value || '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const command = entry.slice(0, separator).trim().toLowerCase();
+    const rule = entry.slice(separator + 1).trim();
+    if (separator === -1 || !command || !rule) {
+      throw new Error(`Invalid rate limit "${entry}"; expected e.g. "register:3/10m" or "register:off"`);
+    }
+    rules[command] = parseRateLimitRule(rule);
+  }
+  return rules;
+}
+
+export function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.ceil(minutes / 60)}h`;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastPrune = Date.now();
+
+  /**
+   * Take one token from every bucket, or from none of them if any is empty,
+   * so a guild-wide denial doesn't also use up the user's allowance.
+   */
+  take(checks: RateLimitCheck[]): RateLimitDecision {
+    const now = Date.now();
+    this.prune(now);
+
+    const buckets = checks.map(check => ({ check, bucket: this.refill(check, now) }));
+    const empty = buckets.find(({ bucket }) => bucket.tokens < 1);
+    if (empty) {
+      const { check, bucket } = empty;
+      const notify = !bucket.notified;
+      bucket.notified = true;
+      return { allowed: false, scope: check.scope, retryAfterMs: (1 - bucket.tokens) / bucket.refillPerMs, notify };
+    }
+
+    for (const { bucket } of buckets) {
+      bucket.tokens -= 1;
+      bucket.notified = false;
+    }
+    return { allowed: true };
+  }
+
+  private refill(check: RateLimitCheck, now: number): Bucket {
+    const { capacity, windowMs } = check.rule;
+    const refillPerMs = capacity / windowMs;
+    let bucket = this.buckets.get(check.key);
+    if (!bucket || bucket.capacity !== capacity || bucket.refillPerMs !== refillPerMs) {
+      bucket = { tokens: capacity, updatedAt: now, capacity, refillPerMs, notified: false };
+      this.buckets.set(check.key, bucket);
+    }
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // Full buckets behave the same as missing ones, so drop them once a minute
+  private prune(now: number) {
+    if (now - this.lastPrune < 60 * 1000) return;
+    this.lastPrune = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs >= bucket.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Limits how many tasks run at once; the rest wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly max: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.max) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Hand the slot straight to the next waiter, if any
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active -= 1;
+    }
+  }
+}
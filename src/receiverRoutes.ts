@@ -0,0 +1,150 @@
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+
+// Content type used to decide whether a profile accepts plain text messages
+export const TEXT_CONTENT_TYPE = 'text/plain';
+
+// Name of the profile built from RECEIVER_URL and IMAGE_RECEIVER_TOKEN
+export const DEFAULT_PROFILE = 'default';
+
+// A calendar app deployment the bot forwards to
+export interface ReceiverProfile {
+  name: string;
+  receiverUrl: string;
+  // Base URL of the calendar app API (OAuth, registration, accounts, events)
+  calendarAppUrl: string;
+  token: string;
+  // Content type prefixes the backend accepts, "text/plain" covering text messages; null accepts everything
+  contentTypes: string[] | null;
+}
+
+// Which rule of the routing table picked a profile; 'parent' is the route of a thread's parent channel
+export type RouteMatch = 'channel' | 'parent' | 'guild' | 'dm' | 'default';
+
+export interface ResolvedRoute {
+  profile: ReceiverProfile;
+  match: RouteMatch;
+}
+
+const profileSchema = z.object({
+  receiverUrl: z.string().url(),
+  calendarAppUrl: z.string().url().optional(),
+  // The token itself, or the environment variable that holds it so the file can be checked in
+  token: z.string().min(1).optional(),
+  tokenEnv: z.string().min(1).optional(),
+  contentTypes: z.array(z.string().trim().toLowerCase().min(1)).optional(),
+}).refine(profile => profile.token || profile.tokenEnv, 'needs a token or tokenEnv');
+
+const routesFileSchema = z.object({
+  profiles: z.record(profileSchema).default({}),
+  // Channel ID -> profile name; checked before the guild, and covers the channel's threads
+  channels: z.record(z.string()).default({}),
+  // Guild ID -> profile name
+  guilds: z.record(z.string()).default({}),
+  // Profile for direct messages
+  dm: z.string().optional(),
+  // Profile for everything else
+  default: z.string().default(DEFAULT_PROFILE),
+});
+
+type RoutesFile = z.output<typeof routesFileSchema>;
+
+// Calendar app base URL for a receiver URL that uses the default /api/receiver/image path
+export function deriveCalendarAppUrl(receiverUrl: string): string {
+  return receiverUrl.replace('/api/receiver/image', '');
+}
+
+// Whether a profile accepts a content type; the guild's own attachment types still apply on top
+export function acceptsContentType(profile: ReceiverProfile, contentType: string): boolean {
+  return !profile.contentTypes || profile.contentTypes.some(type => contentType.includes(type));
+}
+
+/**
+ * Routing table from guilds, channels and DMs to receiver profiles. A
+ * channel route wins over its guild's route, and threads without a route of
+ * their own follow their parent channel's. Anything without a route goes to
+ * the default profile.
+ */
+export class ReceiverRouter {
+  constructor(private readonly profiles: Map<string, ReceiverProfile>, private readonly table: Omit<RoutesFile, 'profiles'>) {}
+
+  resolve(guildId: string | null, channelId: string | null, parentChannelId: string | null = null): ResolvedRoute {
+    const channelRoute = channelId ? this.table.channels[channelId] : undefined;
+    if (channelRoute) return { profile: this.require(channelRoute), match: 'channel' };
+
+    const parentRoute = parentChannelId ? this.table.channels[parentChannelId] : undefined;
+    if (parentRoute) return { profile: this.require(parentRoute), match: 'parent' };
+
+    if (guildId) {
+      const guildRoute = this.table.guilds[guildId];
+      if (guildRoute) return { profile: this.require(guildRoute), match: 'guild' };
+    } else if (this.table.dm) {
+      return { profile: this.require(this.table.dm), match: 'dm' };
+    }
+    return { profile: this.defaultProfile, match: 'default' };
+  }
+
+  get defaultProfile(): ReceiverProfile {
+    return this.require(this.table.default);
+  }
+
+  get(name: string): ReceiverProfile | null {
+    return this.profiles.get(name) || null;
+  }
+
+  list(): ReceiverProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  private require(name: string): ReceiverProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Receiver profile "${name}" is not configured`);
+    }
+    return profile;
+  }
+}
+
+/**
+ * Load the routing table from a JSON file. envProfile, built from
+ * RECEIVER_URL and IMAGE_RECEIVER_TOKEN, is available as "default" unless the
+ * file defines its own profile by that name. Without a file every message
+ * goes to envProfile. Throws if a route names a profile that does not exist.
+ */
+export async function loadReceiverRoutes(filePath: string | null, envProfile: ReceiverProfile | null, env: NodeJS.ProcessEnv): Promise<ReceiverRouter> {
+  let file: RoutesFile = routesFileSchema.parse({});
+  if (filePath) {
+    const raw = JSON.parse(await readFile(filePath, 'utf8'));
+    const parsed = routesFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid receiver routes in ${filePath}: ${parsed.error.message}`);
+    }
+    file = parsed.data;
+  }
+
+  const profiles = new Map<string, ReceiverProfile>();
+  if (envProfile) {
+    profiles.set(envProfile.name, envProfile);
+  }
+  for (const [name, profile] of Object.entries(file.profiles)) {
+    const token = profile.token || env[profile.tokenEnv || ''];
+    if (!token) {
+      throw new Error(`Receiver profile "${name}" has no token; set ${profile.tokenEnv}`);
+    }
+    profiles.set(name, {
+      name,
+      receiverUrl: profile.receiverUrl,
+      calendarAppUrl: profile.calendarAppUrl || deriveCalendarAppUrl(profile.receiverUrl),
+      token,
+      contentTypes: profile.contentTypes || null,
+    });
+  }
+
+  const { profiles: _profiles, ...table } = file;
+  const referenced = [table.default, ...(table.dm ? [table.dm] : []), ...Object.values(table.channels), ...Object.values(table.guilds)];
+  const missing = [...new Set(referenced.filter(name => !profiles.has(name)))];
+  if (missing.length > 0) {
+    throw new Error(`Receiver routes refer to unknown profiles: ${missing.join(', ')}`);
+  }
+  return new ReceiverRouter(profiles, table);
+}
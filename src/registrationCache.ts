@@ -0,0 +1,67 @@
+interface CacheEntry {
+  // Email of the active account; null when the user is not registered
+  email: string | null;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache of Discord ID -> active account email, so forwards don't
+ * ask the calendar app on every message. Each receiver profile has its own
+ * calendar app, so entries are kept per profile. Unregistered users are
+ * cached for a shorter window so a fresh registration is picked up quickly
+ * even if no invalidation arrives.
+ */
+export class RegistrationCache {
+  // Discord ID -> receiver profile name -> entry
+  private entries = new Map<string, Map<string, CacheEntry>>();
+
+  constructor(private readonly ttlMs: number, private readonly negativeTtlMs: number) {}
+
+  // Returns undefined on a miss, null for a cached "not registered"
+  get(receiver: string, discordId: string): string | null | undefined {
+    const entry = this.entries.get(discordId)?.get(receiver);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(discordId, receiver);
+      return undefined;
+    }
+    return entry.email;
+  }
+
+  set(receiver: string, discordId: string, email: string | null) {
+    this.prune();
+    const ttl = email ? this.ttlMs : this.negativeTtlMs;
+    if (ttl <= 0) return;
+
+    const byReceiver = this.entries.get(discordId) || new Map<string, CacheEntry>();
+    byReceiver.set(receiver, { email, expiresAt: Date.now() + ttl });
+    this.entries.set(discordId, byReceiver);
+  }
+
+  // Without a receiver, drops the user's entries for every profile
+  invalidate(discordId: string, receiver?: string) {
+    if (receiver) {
+      this.delete(discordId, receiver);
+    } else {
+      this.entries.delete(discordId);
+    }
+  }
+
+  private delete(discordId: string, receiver: string) {
+    const byReceiver = this.entries.get(discordId);
+    if (!byReceiver) return;
+    byReceiver.delete(receiver);
+    if (byReceiver.size === 0) this.entries.delete(discordId);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [discordId, byReceiver] of this.entries) {
+      for (const [receiver, entry] of byReceiver) {
+        if (entry.expiresAt <= now) byReceiver.delete(receiver);
+      }
+      if (byReceiver.size === 0) this.entries.delete(discordId);
+    }
+  }
+}
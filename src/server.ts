@@ -0,0 +1,146 @@
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import { Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { CalendarNotification, calendarNotificationSchema } from './notifications.js';
+import { registry } from './metrics.js';
+import { CORRELATION_HEADER, logger, newCorrelationId, withCorrelationId } from './logger.js';
+import { RequestVerifier, SIGNATURE_HEADERS } from './signing.js';
+
+const log = logger.child({ component: 'http' });
+
+export interface HttpServerOptions {
+  port: number;
+  // Shared secret the calendar app sends as a bearer token
+  webhookSecret: string;
+  // Verifies HMAC-signed webhooks; webhooks are disabled without either this or a secret
+  signatureVerifier?: RequestVerifier | null;
+  onNotification: (notification: CalendarNotification) => Promise<'channel' | 'dm'>;
+  getReadiness: () => Promise<{ ready: boolean; [check: string]: boolean }>;
+}
+
+function secretsMatch(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The exact request bytes, kept so signatures can be checked against them
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/**
+ * Accept a webhook that is either HMAC-signed or carries the bearer secret.
+ * A request that includes a signature must have a valid one.
+ */
+function requireWebhookAuth(secret: string, verifier: RequestVerifier | null | undefined) {
+  return (req: RawBodyRequest, res: Response, next: NextFunction) => {
+    if (verifier && req.get(SIGNATURE_HEADERS.signature)) {
+      const check = verifier.verify({
+        method: req.method,
+        path: req.originalUrl,
+        header: name => req.get(name),
+        body: req.rawBody,
+      });
+      if (check.valid) {
+        next();
+        return;
+      }
+      log.warn('Rejected webhook signature', { reason: check.reason });
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const header = req.get('authorization') || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+    if (!secret || !token || !secretsMatch(secret, token)) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
+
+export function createApp(options: HttpServerOptions) {
+  const app = express();
+  app.use(cors());
+  app.use(express.json({
+    limit: '256kb',
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  }));
+
+  // Reuse the calendar app's correlation ID when it sends one, so both sides log the same ID
+  app.use((req, res, next) => {
+    const correlationId = req.get(CORRELATION_HEADER) || newCorrelationId();
+    res.set(CORRELATION_HEADER, correlationId);
+    withCorrelationId(correlationId, next);
+  });
+
+  // Liveness: the process is up and serving requests
+  app.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  // Readiness: the gateway is connected and every receiver is reachable
+  app.get('/readyz', async (_req, res) => {
+    try {
+      const readiness = await options.getReadiness();
+      res.status(readiness.ready ? 200 : 503).json(readiness);
+    } catch (error) {
+      log.error('Readiness check failed', { error });
+      res.status(503).json({ ready: false });
+    }
+  });
+
+  app.get('/metrics', async (_req, res) => {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  });
+
+  if (!options.webhookSecret && !options.signatureVerifier) {
+    log.warn('Neither WEBHOOK_SECRET nor SIGNING_KEY is set, calendar app webhooks are disabled');
+    return app;
+  }
+
+  app.post('/webhooks/calendar', requireWebhookAuth(options.webhookSecret, options.signatureVerifier), async (req, res) => {
+    const parsed = calendarNotificationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: 'Invalid notification', details: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const deliveredTo = await options.onNotification(parsed.data);
+      log.info('Delivered notification', { type: parsed.data.type, deliveredTo });
+      res.json({ success: true, deliveredTo });
+    } catch (error) {
+      log.error('Failed to deliver notification', { type: parsed.data.type, error });
+      // 502 tells the calendar app the payload was fine but Discord delivery failed, so it can retry
+      res.status(502).json({ success: false, error: 'Failed to deliver notification to Discord' });
+    }
+  });
+
+  return app;
+}
+
+export function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const app = createApp(options);
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port, (error?: Error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      log.info('Listening', { port: options.port });
+      resolve(server);
+    });
+  });
+}
+
+export function stopHttpServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+}
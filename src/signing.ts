@@ -0,0 +1,138 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * HMAC request signing shared by the bot and the calendar app. The signature
+ * covers the method, path (with query string), timestamp, a random nonce and
+ * the SHA-256 of the body:
+ *
+ *   v1\n<METHOD>\n<path?query>\n<unix seconds>\n<nonce>\n<hex sha256 of body>
+ *
+ * Verifiers reject stale timestamps and nonces they have already seen, so a
+ * captured request cannot be replayed.
+ */
+
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-signature-key-id',
+  timestamp: 'x-signature-timestamp',
+  nonce: 'x-signature-nonce',
+  contentHash: 'x-content-sha256',
+  signature: 'x-signature',
+} as const;
+
+const VERSION = 'v1';
+// How far a request's timestamp may be from the verifier's clock
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+  // Retired keys are accepted until this time (ms since epoch); the current key has none
+  expiresAt?: number;
+}
+
+export type SignatureCheck = { valid: true; keyId: string } | { valid: false; reason: string };
+
+function hashBody(body: Buffer | string | undefined): string {
+  return createHash('sha256').update(body ?? '').digest('hex');
+}
+
+function canonicalRequest(method: string, path: string, timestamp: string, nonce: string, contentHash: string): string {
+  return [VERSION, method.toUpperCase(), path, timestamp, nonce, contentHash].join('\n');
+}
+
+function hmac(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Signing keys from the environment: SIGNING_KEY (with SIGNING_KEY_ID) signs
+ * outgoing requests, and SIGNING_PREVIOUS_KEY stays valid for incoming ones
+ * until SIGNING_PREVIOUS_KEY_EXPIRES_AT while a rotation rolls out.
+ */
+export function loadSigningKeys(env: NodeJS.ProcessEnv): { current: SigningKey | null; accepted: SigningKey[] } {
+  const current = env.SIGNING_KEY ? { id: env.SIGNING_KEY_ID || 'default', secret: env.SIGNING_KEY } : null;
+  const accepted: SigningKey[] = current ? [current] : [];
+
+  if (env.SIGNING_PREVIOUS_KEY) {
+    const expiresAt = Date.parse(env.SIGNING_PREVIOUS_KEY_EXPIRES_AT || '');
+    if (isNaN(expiresAt)) {
+      throw new Error('SIGNING_PREVIOUS_KEY_EXPIRES_AT must be an ISO 8601 date when SIGNING_PREVIOUS_KEY is set');
+    }
+    accepted.push({ id: env.SIGNING_PREVIOUS_KEY_ID || 'previous', secret: env.SIGNING_PREVIOUS_KEY, expiresAt });
+  }
+  return { current, accepted };
+}
+
+export class RequestSigner {
+  constructor(private readonly key: SigningKey) {}
+
+  // Headers to add to a request; url may be absolute or a path
+  sign(method: string, url: string, body?: Buffer | string): Record<string, string> {
+    const { pathname, search } = new URL(url, 'http://localhost');
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = randomBytes(16).toString('hex');
+    const contentHash = hashBody(body);
+
+    return {
+      [SIGNATURE_HEADERS.keyId]: this.key.id,
+      [SIGNATURE_HEADERS.timestamp]: timestamp,
+      [SIGNATURE_HEADERS.nonce]: nonce,
+      [SIGNATURE_HEADERS.contentHash]: contentHash,
+      [SIGNATURE_HEADERS.signature]: `${VERSION}=${hmac(this.key.secret, canonicalRequest(method, pathname + search, timestamp, nonce, contentHash))}`,
+    };
+  }
+}
+
+export class RequestVerifier {
+  // Nonce -> when it can be forgotten; older requests fail the timestamp check anyway
+  private seenNonces = new Map<string, number>();
+
+  constructor(private readonly keys: SigningKey[], private readonly toleranceMs = DEFAULT_TOLERANCE_MS) {}
+
+  verify(request: {
+    method: string;
+    path: string;
+    header: (name: string) => string | undefined;
+    body?: Buffer | string;
+  }): SignatureCheck {
+    const keyId = request.header(SIGNATURE_HEADERS.keyId);
+    const timestamp = request.header(SIGNATURE_HEADERS.timestamp);
+    const nonce = request.header(SIGNATURE_HEADERS.nonce);
+    const signature = request.header(SIGNATURE_HEADERS.signature);
+    if (!keyId || !timestamp || !nonce || !signature) {
+      return { valid: false, reason: 'missing signature headers' };
+    }
+
+    const now = Date.now();
+    const key = this.keys.find(candidate => candidate.id === keyId);
+    if (!key || (key.expiresAt !== undefined && key.expiresAt < now)) {
+      return { valid: false, reason: 'unknown or expired key' };
+    }
+
+    const sentAt = parseInt(timestamp) * 1000;
+    if (isNaN(sentAt) || Math.abs(now - sentAt) > this.toleranceMs) {
+      return { valid: false, reason: 'timestamp outside the allowed window' };
+    }
+
+    // The body hash is recomputed rather than trusted from the header
+    const expected = `${VERSION}=${hmac(key.secret, canonicalRequest(request.method, request.path, timestamp, nonce, hashBody(request.body)))}`;
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) {
+      return { valid: false, reason: 'signature mismatch' };
+    }
+
+    this.pruneNonces(now);
+    if (this.seenNonces.has(nonce)) {
+      return { valid: false, reason: 'nonce already used' };
+    }
+    this.seenNonces.set(nonce, sentAt + this.toleranceMs);
+    return { valid: true, keyId };
+  }
+
+  private pruneNonces(now: number) {
+    for (const [nonce, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) this.seenNonces.delete(nonce);
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import { createInterface } from 'readline';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { APIEmbed, BaseMessageOptions } from 'discord.js';
+import discordBotService from './bot.js';
+import { StandInReceiver, StandInScript, loadStandInScript } from './standInReceiver.js';
+import {
+  ReplyHandler,
+  SimulatedLocation,
+  SimulatedUser,
+  SimulationInputError,
+  syntheticButton,
+  syntheticCommand,
+  syntheticMessage,
+} from './syntheticDiscord.js';
+
+/**
+ * Offline simulator: runs the bot against a local stand-in receiver and feeds
+ * it synthetic messages, commands and button clicks from a REPL, or from a
+ * file piped to stdin. Nothing connects to Discord or the real calendar app.
+ *
+ *   npm run simulate -- [--script responses.json] [--routes receiver-routes.json] [--data-dir ./data/simulation] [--log-level warn] [--keep-data]
+ */
+
+const HELP = `Simulator commands:
+  <text>                            Send a message; prefix commands such as !status work too
+  /<command> [sub] [option=value]   Run a slash command, e.g. /upcoming days=3 or /find query="team lunch"
+  :attach <file>... [-- <text>]     Send a message with local files attached
+  :edit <message-id|last> <text>    Edit an earlier message
+  :delete <message-id|last>         Delete an earlier message
+  :click <custom-id>                Click a button the bot posted
+  :dm                               Talk to the bot in a direct message
+  :guild [guild-id] [channel-id]    Talk to the bot in a server channel
+  :user <id> [username]             Act as another user
+  :manage on|off                    Give the user Manage Server in the current server
+  :locale <tag>                     Set the Discord client locale sent with interactions, e.g. es-ES (default en-US)
+  :script <METHOD> <path> <status> [json]  Queue a stand-in response, e.g. :script POST /api/receiver/image 503
+  :requests [count]                 Show the latest requests the stand-in received (default 5)
+  :wait [ms]                        Let background work such as outbox retries run (default 6000)
+  :help                             Show this help
+  :quit                             Exit`;
+
+const DEFAULT_GUILD_ID = '100000000000000001';
+const DEFAULT_CHANNEL_ID = '100000000000000002';
+
+interface SimulatorOptions {
+  scriptPath: string | null;
+  routesPath: string | null;
+  dataDir: string;
+  logLevel: string;
+  keepData: boolean;
+}
+
+function parseArgs(argv: string[]): SimulatorOptions {
+  const options: SimulatorOptions = { scriptPath: null, routesPath: null, dataDir: './data/simulation', logLevel: 'warn', keepData: false };
+  for (let i = 0; i < argv.length; i++) {
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new Error(`${argv[i - 1]} needs a value`);
+      return next;
+    };
+    switch (argv[i]) {
+      case '--script': options.scriptPath = value(); break;
+      case '--routes': options.routesPath = value(); break;
+      case '--data-dir': options.dataDir = value(); break;
+      case '--log-level': options.logLevel = value(); break;
+      case '--keep-data': options.keepData = true; break;
+      default: throw new Error(`Unknown argument ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function embedJson(embed: NonNullable<BaseMessageOptions['embeds']>[number]): APIEmbed {
+  return 'toJSON' in embed ? embed.toJSON() : embed;
+}
+
+class Simulator {
+  private user: SimulatedUser = { id: '100000000000000010', username: 'alice' };
+  private locale = 'en-US';
+  private location: SimulatedLocation = { guildId: DEFAULT_GUILD_ID, channelId: DEFAULT_CHANNEL_ID, canManageGuild: false };
+  // Messages sent in this run, so they can be edited and deleted
+  private messages = new Map<string, { user: SimulatedUser; location: SimulatedLocation }>();
+  private lastMessageId: string | null = null;
+  // Buttons the bot has posted, with the post they were on
+  private buttons = new Map<string, BaseMessageOptions>();
+
+  constructor(private readonly receiver: StandInReceiver) {}
+
+  // Print a reply, channel post or interaction response, listing any buttons
+  print(header: string, payload: string | BaseMessageOptions) {
+    const options = typeof payload === 'string' ? { content: payload } : payload;
+    const lines: string[] = [];
+    if (options.content) lines.push(...options.content.split('\n'));
+
+    for (const embed of (options.embeds || []).map(embedJson)) {
+      if (embed.title) lines.push(`┃ ${embed.title}`);
+      if (embed.description) lines.push(...embed.description.split('\n').map(line => `┃ ${line}`));
+      for (const field of embed.fields || []) {
+        lines.push(`┃ ${field.name}`, ...field.value.split('\n').map(line => `┃   ${line}`));
+      }
+      if (embed.footer) lines.push(`┃ ${embed.footer.text}`);
+    }
+
+    for (const row of options.components || []) {
+      const json = ('toJSON' in row ? row.toJSON() : row) as { components?: { custom_id?: string; label?: string; disabled?: boolean }[] };
+      const buttons = (json.components || []).filter(button => button.custom_id);
+      for (const button of buttons) this.buttons.set(button.custom_id!, options);
+      if (buttons.length > 0) {
+        lines.push(buttons.map(button => `[${button.label}${button.disabled ? ', disabled' : ''}] ${button.custom_id}`).join('   '));
+      }
+    }
+
+    console.log(`${header}\n${lines.map(line => `  ${line}`).join('\n') || '  (empty)'}`);
+  }
+
+  private onReply: ReplyHandler = (payload, visibility) => {
+    this.print(visibility === 'ephemeral' ? 'bot (only you can see this) ›' : 'bot ›', payload);
+  };
+
+  private describeLocation(): string {
+    return this.location.guildId ? `server ${this.location.guildId}, channel ${this.location.channelId}` : 'DM';
+  }
+
+  async run(line: string): Promise<boolean> {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return true;
+
+    try {
+      if (trimmed.startsWith(':')) {
+        return await this.runDirective(trimmed);
+      }
+      if (trimmed.startsWith('/')) {
+        const interaction = syntheticCommand({ line: trimmed, user: this.user, location: this.location, locale: this.locale, onReply: this.onReply });
+        await discordBotService.simulateInteraction(interaction);
+        return true;
+      }
+      await this.sendMessage(trimmed, []);
+    } catch (error) {
+      console.log(`! ${error instanceof SimulationInputError ? error.message : error instanceof Error ? error.stack : String(error)}`);
+    }
+    return true;
+  }
+
+  private async sendMessage(content: string, files: string[]) {
+    const attachments = await Promise.all(files.map(file => this.receiver.hostFile(path.resolve(file))));
+    const message = syntheticMessage({ author: this.user, location: this.location, content, attachments, onReply: this.onReply });
+    this.messages.set(message.id, { user: this.user, location: this.location });
+    this.lastMessageId = message.id;
+    console.log(`(message ${message.id})`);
+    await discordBotService.simulateMessage(message);
+  }
+
+  private async runDirective(line: string): Promise<boolean> {
+    const [directive, ...args] = line.split(/\s+/);
+    // Piped scripts cannot know generated IDs, so "last" stands for the latest message
+    const messageId = args[0] === 'last' ? this.lastMessageId || '' : args[0];
+    const rest = line.slice(directive.length).trim();
+
+    switch (directive) {
+      case ':quit':
+      case ':exit':
+        return false;
+
+      case ':help':
+        console.log(HELP);
+        break;
+
+      case ':attach': {
+        const separator = args.indexOf('--');
+        const files = separator >= 0 ? args.slice(0, separator) : args;
+        if (files.length === 0) throw new SimulationInputError('Usage: :attach <file>... [-- <text>]');
+        const text = separator >= 0 ? rest.slice(rest.indexOf('--') + 2).trim() : '';
+        await this.sendMessage(text, files);
+        break;
+      }
+
+      case ':edit': {
+        const original = this.messages.get(messageId);
+        if (!original) throw new SimulationInputError(`No message ${messageId || ''} was sent in this run`);
+        const content = rest.slice(args[0].length).trim();
+        const message = syntheticMessage({ id: messageId, author: original.user, location: original.location, content, editedAt: Date.now(), onReply: this.onReply });
+        await discordBotService.simulateMessageUpdate(message);
+        console.log(`(edited message ${messageId})`);
+        break;
+      }
+
+      case ':delete': {
+        if (!this.messages.delete(messageId)) throw new SimulationInputError(`No message ${messageId || ''} was sent in this run`);
+        await discordBotService.simulateMessageDelete(messageId);
+        console.log(`(deleted message ${messageId})`);
+        break;
+      }
+
+      case ':click': {
+        const [customId] = args;
+        const post = this.buttons.get(customId);
+        if (!post) throw new SimulationInputError(`No button ${customId || ''} has been posted`);
+        const interaction = syntheticButton({ customId, message: post, user: this.user, location: this.location, locale: this.locale, onReply: this.onReply });
+        await discordBotService.simulateInteraction(interaction);
+        break;
+      }
+
+      case ':dm':
+        this.location = { guildId: null, channelId: `dm-${this.user.id}`, canManageGuild: false };
+        console.log(`(now in ${this.describeLocation()})`);
+        break;
+
+      case ':guild':
+        this.location = { guildId: args[0] || DEFAULT_GUILD_ID, channelId: args[1] || DEFAULT_CHANNEL_ID, canManageGuild: this.location.canManageGuild };
+        console.log(`(now in ${this.describeLocation()})`);
+        break;
+
+      case ':user': {
+        if (!args[0]) throw new SimulationInputError('Usage: :user <id> [username]');
+        this.user = { id: args[0], username: args[1] || `user${args[0].slice(-4)}` };
+        if (!this.location.guildId) this.location = { ...this.location, channelId: `dm-${this.user.id}` };
+        console.log(`(now acting as ${this.user.username}, ${this.user.id})`);
+        break;
+      }
+
+      case ':manage':
+        this.location = { ...this.location, canManageGuild: args[0] !== 'off' };
+        console.log(`(Manage Server ${this.location.canManageGuild ? 'granted' : 'revoked'})`);
+        break;
+
+      case ':locale':
+        if (!args[0]) throw new SimulationInputError('Usage: :locale <tag>');
+        this.locale = args[0];
+        console.log(`(Discord client locale is now ${this.locale})`);
+        break;
+
+      case ':script': {
+        const [method, route, status] = args;
+        if (!method || !route || !status) throw new SimulationInputError('Usage: :script <METHOD> <path> <status> [json]');
+        const json = rest.split(/\s+/).slice(3).join(' ');
+        this.receiver.script({ method, path: route, status: parseInt(status), body: json ? JSON.parse(json) : undefined });
+        console.log(`(next ${method.toUpperCase()} ${route} answers ${status})`);
+        break;
+      }
+
+      case ':requests': {
+        const count = parseInt(args[0] || '5');
+        const requests = this.receiver.requests.slice(-count);
+        if (requests.length === 0) console.log('(no requests yet)');
+        for (const request of requests) {
+          console.log(`#${request.seq} ${request.method} ${request.url} → ${request.status}${request.scripted ? ' (scripted)' : ''} [signature: ${request.signature}]`);
+          if (request.body !== null) console.log(`  ${JSON.stringify(request.body)}`);
+        }
+        break;
+      }
+
+      case ':wait': {
+        const ms = parseInt(args[0] || '6000');
+        await new Promise(resolve => setTimeout(resolve, ms));
+        console.log(`(waited ${ms}ms)`);
+        break;
+      }
+
+      default:
+        throw new SimulationInputError(`Unknown directive ${directive}; type :help`);
+    }
+    return true;
+  }
+
+  get prompt(): string {
+    return `${this.user.username} @ ${this.location.guildId ? `#${this.location.channelId}` : 'DM'} > `;
+  }
+}
+
+// Point the bot at the stand-in and keep its state away from a real deployment's data
+function configureEnvironment(options: SimulatorOptions, receiver: StandInReceiver) {
+  const data = (name: string) => path.join(options.dataDir, name);
+  Object.assign(process.env, {
+    RECEIVER_URL: receiver.receiverUrl,
+    CALENDAR_APP_URL: receiver.baseUrl,
+    IMAGE_RECEIVER_TOKEN: 'simulation',
+    RECEIVER_ROUTES_PATH: '',
+    OUTBOX_DIR: data('outbox'),
+    FORWARDED_MESSAGES_PATH: data('forwarded-messages.json'),
+    GUILD_CONFIG_PATH: data('guild-config.json'),
+    BLOCKLIST_PATH: data('blocklist.json'),
+    DIGESTS_PATH: data('digests.json'),
+    USER_PREFERENCES_PATH: data('user-preferences.json'),
+  });
+}
+
+/**
+ * Copy a receiver routing table with every profile pointed at the stand-in,
+ * so routes and content types can be tried offline. Forwards carry the
+ * profile name in a ?profile= query, which shows up in :requests.
+ */
+async function localRoutes(routesPath: string, receiver: StandInReceiver, dataDir: string): Promise<string> {
+  const table = JSON.parse(await readFile(routesPath, 'utf8'));
+  for (const [name, profile] of Object.entries<Record<string, unknown>>(table.profiles || {})) {
+    profile.receiverUrl = `${receiver.receiverUrl}?profile=${encodeURIComponent(name)}`;
+    profile.calendarAppUrl = receiver.baseUrl;
+    profile.token = 'simulation';
+  }
+
+  const localPath = path.join(dataDir, 'receiver-routes.json');
+  await mkdir(dataDir, { recursive: true });
+  await writeFile(localPath, JSON.stringify(table, null, 2));
+  return localPath;
+}
+
+async function clearData(dataDir: string) {
+  const entries = ['outbox', 'forwarded-messages.json', 'guild-config.json', 'blocklist.json', 'digests.json', 'user-preferences.json', 'receiver-routes.json'];
+  await Promise.all(entries.map(entry => rm(path.join(dataDir, entry), { recursive: true, force: true })));
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const script: StandInScript = options.scriptPath ? await loadStandInScript(options.scriptPath) : {};
+
+  process.env.LOG_LEVEL = options.logLevel;
+  process.env.LOG_FORMAT = 'pretty';
+
+  const receiver = new StandInReceiver(script);
+  await receiver.start();
+  configureEnvironment(options, receiver);
+  if (!options.keepData) {
+    await clearData(options.dataDir);
+  }
+  if (options.routesPath) {
+    process.env.RECEIVER_ROUTES_PATH = await localRoutes(options.routesPath, receiver, options.dataDir);
+  }
+
+  const simulator = new Simulator(receiver);
+  await discordBotService.startOffline(async (channelId, payload) => {
+    simulator.print(`bot → #${channelId} ›`, payload);
+  });
+
+  const interactive = !!process.stdin.isTTY;
+  console.log(`Simulating the bot against a stand-in receiver at ${receiver.baseUrl}. Type :help for commands.`);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: interactive });
+  rl.setPrompt(simulator.prompt);
+  if (interactive) rl.prompt();
+
+  // Lines are handled one at a time, so piped scripts run in order
+  for await (const line of rl) {
+    if (!interactive && line.trim()) console.log(`${simulator.prompt}${line}`);
+    if (!(await simulator.run(line))) break;
+    if (interactive) {
+      rl.setPrompt(simulator.prompt);
+      rl.prompt();
+    }
+  }
+
+  rl.close();
+  await discordBotService.stop();
+  await receiver.stop();
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,317 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { effectiveContentType } from './attachments.js';
+import { defaultCalendarApiPaths } from './calendarClient.js';
+import { CORRELATION_HEADER, logger } from './logger.js';
+import { RequestVerifier, SIGNATURE_HEADERS, loadSigningKeys } from './signing.js';
+
+const log = logger.child({ component: 'stand-in' });
+
+// Path the receiver listens on, matching the default RECEIVER_URL
+export const RECEIVER_PATH = '/api/receiver/image';
+
+const scriptedResponseSchema = z.object({
+  method: z.string().transform(method => method.toUpperCase()),
+  path: z.string(),
+  status: z.number().int().default(200),
+  body: z.unknown().optional(),
+  // How many requests this response answers before the next one for the same route takes over
+  times: z.number().int().positive().default(1),
+});
+
+const scriptSchema = z.object({
+  // Discord ID -> linked account emails; the first one is active
+  users: z.record(z.array(z.string())).default({}),
+  responses: z.array(scriptedResponseSchema).default([]),
+});
+
+export type ScriptedResponse = z.input<typeof scriptedResponseSchema>;
+export type StandInScript = z.input<typeof scriptSchema>;
+
+export interface RecordedRequest {
+  seq: number;
+  method: string;
+  // Path and query string
+  url: string;
+  // unsigned: no signature headers; unchecked: signed, but no SIGNING_KEY to check against
+  signature: 'valid' | 'invalid' | 'unsigned' | 'unchecked';
+  correlationId?: string;
+  // Parsed JSON, multipart fields with a summary of each file, or null
+  body: unknown;
+  status: number;
+  scripted: boolean;
+}
+
+export interface HostedFile {
+  name: string;
+  url: string;
+  size: number;
+  contentType: string;
+}
+
+interface LinkedAccount {
+  email: string;
+  isActive: boolean;
+  registeredAt: string;
+}
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+type RawBodyRequest = Request & { body: Buffer };
+
+export async function loadStandInScript(filePath: string): Promise<StandInScript> {
+  const parsed = scriptSchema.safeParse(JSON.parse(await readFile(filePath, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid stand-in script ${filePath}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * A local stand-in for the receiver and calendar app, used by the simulator.
+ * It records every request, answers with scripted responses first and
+ * otherwise behaves like a minimal calendar app: /register links
+ * <username>@example.com straight away, accounts can be listed, switched and
+ * unlinked, and forwards succeed without extracting any events. It also
+ * serves local files as attachment downloads.
+ */
+export class StandInReceiver {
+  private server: Server | null = null;
+  private origin = '';
+  private readonly recorded: RecordedRequest[] = [];
+  private readonly scripted: z.output<typeof scriptedResponseSchema>[] = [];
+  private readonly users = new Map<string, LinkedAccount[]>();
+  private readonly files = new Map<string, { filePath: string; contentType: string }>();
+  private readonly verifier: RequestVerifier | null;
+
+  constructor(script: StandInScript = {}) {
+    const { users, responses } = scriptSchema.parse(script);
+    for (const [discordId, emails] of Object.entries(users)) {
+      const registeredAt = new Date().toISOString();
+      this.users.set(discordId, emails.map((email, index) => ({ email, isActive: index === 0, registeredAt })));
+    }
+    this.scripted.push(...responses);
+
+    // Uses the same keys as the bot, so signatures can be checked end to end
+    const { accepted } = loadSigningKeys(process.env);
+    this.verifier = accepted.length > 0 ? new RequestVerifier(accepted) : null;
+  }
+
+  get baseUrl(): string {
+    return this.origin;
+  }
+
+  get receiverUrl(): string {
+    return this.origin + RECEIVER_PATH;
+  }
+
+  get requests(): readonly RecordedRequest[] {
+    return this.recorded;
+  }
+
+  clearRequests() {
+    this.recorded.length = 0;
+  }
+
+  // Queue a response for the next matching request, ahead of the built-in behavior
+  script(response: ScriptedResponse) {
+    this.scripted.push(scriptedResponseSchema.parse(response));
+  }
+
+  // Serve a local file so the bot can download it like a Discord CDN attachment
+  async hostFile(filePath: string): Promise<HostedFile> {
+    const { size } = await stat(filePath);
+    const name = path.basename(filePath);
+    const contentType = effectiveContentType(null, name);
+    const id = String(this.files.size + 1);
+    this.files.set(id, { filePath, contentType });
+    return { name, url: `${this.origin}/files/${id}/${encodeURIComponent(name)}`, size, contentType };
+  }
+
+  // Listens on a random free port unless one is given
+  async start(port = 0): Promise<void> {
+    const app = this.createApp();
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(port, '127.0.0.1', (error?: Error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+    const address = this.server!.address() as AddressInfo;
+    this.origin = `http://127.0.0.1:${address.port}`;
+    log.info('Stand-in receiver listening', { url: this.origin });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private createApp() {
+    const app = express();
+
+    app.get('/files/:id/:name', async (req, res) => {
+      const file = this.files.get(req.params.id);
+      if (!file) {
+        res.status(404).end();
+        return;
+      }
+      res.type(file.contentType).send(await readFile(file.filePath));
+    });
+
+    app.use(express.raw({ type: () => true, limit: '100mb' }));
+    app.use(async (req, res) => {
+      try {
+        await this.handle(req as RawBodyRequest, res);
+      } catch (error) {
+        log.error('Stand-in receiver error', { error });
+        res.status(500).json({ success: false, error: 'Stand-in receiver error' });
+      }
+    });
+    return app;
+  }
+
+  private async handle(req: RawBodyRequest, res: Response) {
+    const raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const body = await this.parseBody(req, raw);
+
+    const index = this.scripted.findIndex(response => response.method === req.method && response.path === req.path);
+    let reply: Reply;
+    if (index >= 0) {
+      const response = this.scripted[index];
+      response.times -= 1;
+      if (response.times === 0) this.scripted.splice(index, 1);
+      reply = { status: response.status, body: response.body ?? {} };
+    } else {
+      reply = this.respond(req, body);
+    }
+
+    this.recorded.push({
+      seq: this.recorded.length + 1,
+      method: req.method,
+      url: req.originalUrl,
+      signature: this.checkSignature(req, raw),
+      correlationId: req.get(CORRELATION_HEADER),
+      body,
+      status: reply.status,
+      scripted: index >= 0,
+    });
+    res.status(reply.status).json(reply.body);
+  }
+
+  private async parseBody(req: Request, raw: Buffer): Promise<unknown> {
+    if (raw.length === 0) return null;
+
+    const contentType = req.get('content-type') || '';
+    if (contentType.includes('application/json')) {
+      return JSON.parse(raw.toString('utf8'));
+    }
+    if (contentType.includes('multipart/form-data')) {
+      const form = await new globalThis.Request('http://stand-in', { method: 'POST', headers: { 'content-type': contentType }, body: raw }).formData();
+      const fields: Record<string, string> = {};
+      const files: { name: string; contentType: string; bytes: number }[] = [];
+      for (const [key, value] of form.entries()) {
+        if (typeof value === 'string') {
+          fields[key] = value;
+        } else {
+          files.push({ name: value.name, contentType: value.type, bytes: value.size });
+        }
+      }
+      return { fields, files };
+    }
+    return raw.toString('utf8');
+  }
+
+  private checkSignature(req: Request, raw: Buffer): RecordedRequest['signature'] {
+    if (!req.get(SIGNATURE_HEADERS.signature)) return 'unsigned';
+    if (!this.verifier) return 'unchecked';
+    const check = this.verifier.verify({ method: req.method, path: req.originalUrl, header: name => req.get(name), body: raw });
+    return check.valid ? 'valid' : 'invalid';
+  }
+
+  // Built-in behavior for requests without a scripted response
+  private respond(req: Request, body: unknown): Reply {
+    const paths = defaultCalendarApiPaths;
+    const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const discordId = String(req.query.discordId ?? input.discordId ?? '');
+    const accounts = this.users.get(discordId) || [];
+    const route = `${req.method} ${req.path}`;
+
+    switch (route) {
+      case `GET ${RECEIVER_PATH}`:
+        return { status: 200, body: { status: 'ok' } };
+      case `POST ${RECEIVER_PATH}`:
+        return { status: 200, body: { success: true, events: [] } };
+
+      case `POST ${paths.oauthInitiate}`: {
+        // Stands in for the user completing the Google sign-in right away
+        const email = `${String(input.discordUsername || discordId).toLowerCase()}@example.com`;
+        if (!accounts.some(account => account.email === email)) {
+          accounts.push({ email, isActive: accounts.length === 0, registeredAt: new Date().toISOString() });
+          this.users.set(discordId, accounts);
+        }
+        return { status: 200, body: { success: true, authUrl: `${this.origin}/oauth/simulated?discordId=${discordId}` } };
+      }
+
+      case `GET ${paths.registration}`: {
+        const active = accounts.find(account => account.isActive);
+        return {
+          status: 200,
+          body: { success: true, registered: !!active, user: active ? { discordId, email: active.email, registeredAt: active.registeredAt } : null },
+        };
+      }
+
+      case `GET ${paths.accounts}`:
+        return {
+          status: 200,
+          body: {
+            success: true,
+            accounts: accounts.map((account, index) => ({ accountNumber: index + 1, ...account })),
+            totalAccounts: accounts.length,
+          },
+        };
+
+      case `POST ${paths.accounts}`: {
+        const target = accounts[Number(input.accountNumber) - 1];
+        if (!target) return { status: 404, body: { success: false, error: 'No account with that number.' } };
+        accounts.forEach(account => (account.isActive = account === target));
+        return { status: 200, body: { success: true, activeAccount: { email: target.email } } };
+      }
+
+      case `DELETE ${paths.accounts}`: {
+        const index = Number(req.query.accountNumber) - 1;
+        const [removed] = index >= 0 ? accounts.splice(index, 1) : [];
+        if (!removed) return { status: 404, body: { success: false, error: 'No account with that number.' } };
+        if (removed.isActive && accounts.length > 0) accounts[0].isActive = true;
+        const active = accounts.find(account => account.isActive);
+        return { status: 200, body: { success: true, removedAccount: { email: removed.email }, activeAccount: active ? { email: active.email } : null } };
+      }
+
+      case `DELETE ${paths.userData}`:
+        this.users.delete(discordId);
+        return { status: 200, body: { success: true, deletedAccounts: accounts.length } };
+
+      case `GET ${paths.events}`:
+        return { status: 200, body: { success: true, events: [] } };
+      case `POST ${paths.eventConfirmation}`:
+        return { status: 200, body: { success: true, event: null } };
+
+      default:
+        return { status: 404, body: { success: false, error: `No stand-in route for ${route}` } };
+    }
+  }
+}
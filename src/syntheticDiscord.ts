@@ -0,0 +1,291 @@
+import {
+  APIApplicationCommandOption,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  BaseMessageOptions,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  Collection,
+  InteractionContextType,
+  Message,
+  MessageFlags,
+  MessageFlagsBitField,
+  MessageFlagsResolvable,
+} from 'discord.js';
+import { commandDefinitions } from './commands.js';
+
+/**
+ * Stand-ins for the discord.js objects the bot's handlers read, so the
+ * simulator can drive the same code paths without a gateway connection. Only
+ * the properties and methods the handlers use are implemented; everything is
+ * cast to the discord.js type at the boundary.
+ */
+
+export interface SimulatedUser {
+  id: string;
+  username: string;
+}
+
+// Where a synthetic event happens; guildId is null for DMs
+export interface SimulatedLocation {
+  guildId: string | null;
+  channelId: string;
+  // Whether the user has Manage Guild in the guild
+  canManageGuild: boolean;
+}
+
+export interface SimulatedAttachment {
+  name: string;
+  url: string;
+  size: number;
+  contentType: string | null;
+}
+
+// Replies and interaction responses; ephemeral ones are only shown to the user
+export type ReplyHandler = (payload: string | BaseMessageOptions, visibility: 'public' | 'ephemeral') => void;
+
+export class SimulationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationInputError';
+  }
+}
+
+let sequence = 0;
+
+// Snowflake-shaped IDs, unique within a run
+export function nextSnowflake(): string {
+  sequence += 1;
+  return `${Date.now()}${String(sequence).padStart(5, '0')}`;
+}
+
+function syntheticUser(user: SimulatedUser) {
+  return { id: user.id, username: user.username, bot: false, tag: user.username };
+}
+
+function permissionsFor(location: SimulatedLocation) {
+  return location.guildId ? { has: () => location.canManageGuild } : null;
+}
+
+export function syntheticMessage(input: {
+  id?: string;
+  author: SimulatedUser;
+  location: SimulatedLocation;
+  content: string;
+  attachments?: SimulatedAttachment[];
+  editedAt?: number;
+  onReply: ReplyHandler;
+}): Message {
+  const id = input.id || nextSnowflake();
+  const permissions = permissionsFor(input.location);
+  const message = {
+    id,
+    content: input.content,
+    author: syntheticUser(input.author),
+    guildId: input.location.guildId,
+    channelId: input.location.channelId,
+    member: permissions ? { permissions } : null,
+    attachments: new Collection((input.attachments || []).map((attachment, index) => [`${id}${index}`, { id: `${id}${index}`, ...attachment }])),
+    embeds: [],
+    partial: false,
+    editedTimestamp: input.editedAt ?? null,
+    async reply(options: string | BaseMessageOptions) {
+      input.onReply(options, 'public');
+      return message;
+    },
+    async fetch() {
+      return message;
+    },
+  };
+  return message as unknown as Message;
+}
+
+// Interaction response methods shared by commands and buttons
+function responder(onReply: ReplyHandler) {
+  const respond = (options: string | (BaseMessageOptions & { flags?: MessageFlagsResolvable })) => {
+    const ephemeral = typeof options !== 'string' && !!options.flags && new MessageFlagsBitField(options.flags).has(MessageFlags.Ephemeral);
+    onReply(options, ephemeral ? 'ephemeral' : 'public');
+  };
+  return {
+    deferred: false,
+    replied: false,
+    isAutocomplete: () => false,
+    isRepliable: () => true,
+    async deferReply() {},
+    async deferUpdate() {},
+    // Deferred command replies are ephemeral, so their edits are too
+    async editReply(options: string | BaseMessageOptions) {
+      onReply(options, 'ephemeral');
+    },
+    async reply(options: string | (BaseMessageOptions & { flags?: MessageFlagsResolvable })) {
+      respond(options);
+    },
+    async followUp(options: string | (BaseMessageOptions & { flags?: MessageFlagsResolvable })) {
+      respond(options);
+    },
+    async update(options: string | BaseMessageOptions) {
+      onReply(options, 'public');
+    },
+    async showModal() {
+      onReply('(The bot opened a form here; forms are not supported in the simulator.)', 'ephemeral');
+    },
+  };
+}
+
+// Split a command line into tokens, keeping "quoted values" together
+function tokenize(line: string): string[] {
+  return (line.match(/[^\s"]*"[^"]*"|\S+/g) || []).map(token => token.replace(/"/g, ''));
+}
+
+function coerceOption(option: APIApplicationCommandOption, raw: string): unknown {
+  switch (option.type) {
+    case ApplicationCommandOptionType.Integer:
+    case ApplicationCommandOptionType.Number: {
+      const value = Number(raw);
+      if (isNaN(value) || (option.type === ApplicationCommandOptionType.Integer && !Number.isInteger(value))) {
+        throw new SimulationInputError(`Option "${option.name}" must be a number`);
+      }
+      return value;
+    }
+    case ApplicationCommandOptionType.Boolean:
+      return raw === 'true';
+    case ApplicationCommandOptionType.Channel:
+      return { id: raw.replace(/^<#|>$/g, '') };
+    case ApplicationCommandOptionType.User:
+      return { id: raw.replace(/^<@!?|>$/g, '') };
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Parse "/name [group] [subcommand] option=value ..." against the real
+ * command definitions, so typos and missing options fail the same way they
+ * would in the Discord client.
+ */
+function parseCommandLine(line: string, location: SimulatedLocation) {
+  const [first, ...tokens] = tokenize(line.replace(/^\//, ''));
+  const definition = commandDefinitions.find(command =>
+    command.name === first && (command.type === undefined || command.type === ApplicationCommandType.ChatInput));
+  if (!definition) {
+    throw new SimulationInputError(`Unknown command "/${first || ''}"`);
+  }
+  if (!location.guildId && definition.contexts?.length && !definition.contexts.includes(InteractionContextType.BotDM)) {
+    throw new SimulationInputError(`/${definition.name} is only available in servers`);
+  }
+  if (definition.default_member_permissions && definition.default_member_permissions !== '0' && !location.canManageGuild) {
+    throw new SimulationInputError(`/${definition.name} requires Manage Server; use :manage on`);
+  }
+
+  let options: APIApplicationCommandOption[] = definition.options || [];
+  let group: string | null = null;
+  let subcommand: string | null = null;
+  const nested = (type: ApplicationCommandOptionType) => options.find(option => option.type === type && option.name === tokens[0]);
+
+  if (options.some(option => option.type === ApplicationCommandOptionType.SubcommandGroup)) {
+    const match = nested(ApplicationCommandOptionType.SubcommandGroup);
+    if (match && match.type === ApplicationCommandOptionType.SubcommandGroup) {
+      group = match.name;
+      options = match.options || [];
+      tokens.shift();
+    }
+  }
+  if (options.some(option => option.type === ApplicationCommandOptionType.Subcommand)) {
+    const match = nested(ApplicationCommandOptionType.Subcommand);
+    if (!match || match.type !== ApplicationCommandOptionType.Subcommand) {
+      const names = options.map(option => option.name).join(', ');
+      throw new SimulationInputError(`/${definition.name}${group ? ` ${group}` : ''} needs one of: ${names}`);
+    }
+    subcommand = match.name;
+    options = match.options || [];
+    tokens.shift();
+  }
+
+  const values = new Map<string, unknown>();
+  for (const token of tokens) {
+    const separator = token.indexOf('=');
+    const name = separator > 0 ? token.slice(0, separator) : '';
+    const option = options.find(candidate => candidate.name === name);
+    if (!option) {
+      const names = options.map(candidate => `${candidate.name}=`).join(', ') || 'none';
+      throw new SimulationInputError(`Unexpected "${token}"; options: ${names}`);
+    }
+    values.set(name, coerceOption(option, token.slice(separator + 1)));
+  }
+  for (const option of options) {
+    if ('required' in option && option.required && !values.has(option.name)) {
+      throw new SimulationInputError(`Missing required option "${option.name}"`);
+    }
+  }
+
+  return { name: definition.name, group, subcommand, values };
+}
+
+/**
+ * A slash command interaction built from a line such as
+ * "/config text state=off" or '/find query="team lunch"'.
+ */
+export function syntheticCommand(input: {
+  line: string;
+  user: SimulatedUser;
+  location: SimulatedLocation;
+  locale?: string;
+  onReply: ReplyHandler;
+}): ChatInputCommandInteraction {
+  const parsed = parseCommandLine(input.line, input.location);
+  const get = (name: string, required?: boolean) => {
+    if (!parsed.values.has(name) && required) {
+      throw new SimulationInputError(`Missing required option "${name}"`);
+    }
+    return parsed.values.get(name) ?? null;
+  };
+
+  const interaction = {
+    ...responder(input.onReply),
+    id: nextSnowflake(),
+    commandName: parsed.name,
+    user: syntheticUser(input.user),
+    guildId: input.location.guildId,
+    channelId: input.location.channelId,
+    memberPermissions: permissionsFor(input.location),
+    locale: input.locale || 'en-US',
+    isChatInputCommand: () => true,
+    options: {
+      getSubcommandGroup: () => parsed.group,
+      getSubcommand: () => parsed.subcommand,
+      getString: get,
+      getInteger: get,
+      getNumber: get,
+      getBoolean: get,
+      getChannel: get,
+      getUser: get,
+    },
+  };
+  return interaction as unknown as ChatInputCommandInteraction;
+}
+
+// A click on a button the bot posted earlier; message is the post the button was on
+export function syntheticButton(input: {
+  customId: string;
+  message: BaseMessageOptions;
+  user: SimulatedUser;
+  location: SimulatedLocation;
+  locale?: string;
+  onReply: ReplyHandler;
+}): ButtonInteraction {
+  const interaction = {
+    ...responder(input.onReply),
+    id: nextSnowflake(),
+    customId: input.customId,
+    user: syntheticUser(input.user),
+    guildId: input.location.guildId,
+    channelId: input.location.channelId,
+    memberPermissions: permissionsFor(input.location),
+    locale: input.locale || 'en-US',
+    message: { embeds: input.message.embeds || [] },
+    isChatInputCommand: () => false,
+    isMessageContextMenuCommand: () => false,
+    isButton: () => true,
+  };
+  return interaction as unknown as ButtonInteraction;
+}
@@ -0,0 +1,60 @@
+import { JsonFile } from './jsonFile.js';
+import { Locale } from './i18n.js';
+
+// Settings a user chose with /language; anything unset follows their Discord client or the bot's defaults
+export interface UserPreferences {
+  locale?: Locale;
+  timezone?: string;
+}
+
+/**
+ * Persisted per-user language and time zone preferences.
+ */
+export class UserPreferencesStore {
+  private preferences: Record<string, UserPreferences> = {};
+  private readonly file: JsonFile<Record<string, UserPreferences>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async init() {
+    this.preferences = await this.file.read({});
+  }
+
+  get(discordId: string): UserPreferences {
+    return { ...this.preferences[discordId] };
+  }
+
+  // Undefined values clear a preference; users with nothing left set are dropped
+  async update(discordId: string, changes: UserPreferences): Promise<UserPreferences> {
+    const next: UserPreferences = { ...this.preferences[discordId], ...changes };
+    for (const key of Object.keys(next) as (keyof UserPreferences)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+
+    if (Object.keys(next).length > 0) {
+      this.preferences[discordId] = next;
+    } else {
+      delete this.preferences[discordId];
+    }
+    await this.persist();
+    return { ...next };
+  }
+
+  // Returns false if the user had no preferences
+  async remove(discordId: string): Promise<boolean> {
+    if (!this.preferences[discordId]) return false;
+    delete this.preferences[discordId];
+    await this.persist();
+    return true;
+  }
+
+  async flush(): Promise<void> {
+    await this.file.flush();
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(this.preferences);
+  }
+}